@@ -1,9 +1,17 @@
 
-import React, { useState, useMemo, useRef } from 'react';
-import { Scene } from './components/Scene';
-import { ContainerConfig, CargoItem, ImportedRow } from './types';
-import { createCargoGroups, arrangeStaging, autoPack } from './utils/packingAlgorithm';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Scene, ColorMode } from './components/Scene';
+import { ContainerConfig, CargoItem, ImportedRow, FleetEntry, PlannedContainer, FleetObjective, CogWindow, PlacementPolicyId, PalletTemplate, ObjectiveWeights } from './types';
+import { createCargoGroups, arrangeStaging, validatePlan, checkCollision, computeLoadStats, getItemZone, getStopColor, combineItems, splitGroup, rotateItemYaw, getPalletContents, palletizeItems, summarizePlan, analyzeVoids, DEFAULT_SECURING_OPTIONS, SecuringOptions, DEFAULT_COG_WINDOW, DEFAULT_OBJECTIVE, DEFAULT_SEARCH_ITERATIONS, PLACEMENT_POLICY_IDS, FleetPlan, SolverProgress } from './utils/packingAlgorithm';
+import { generateSeed } from './utils/random';
+import { runSolverInWorker, SolverHandle } from './utils/solverClient';
 import { translations, Language } from './utils/i18n';
+import { buildPlanReport, isOutOfBounds, toItemRows } from './utils/planReport';
+import { createSnapshotRenderer, SnapshotRenderer } from './utils/snapshotRenderer';
+import { pushCommand, travelTo, undo, redo, EMPTY_HISTORY, CommandKind, HistoryState, PlanSnapshot } from './utils/history';
+import { createProject, parseProject, serializeProject, getProjectFingerprint, readAutosave, writeAutosave, clearAutosave, ProjectFile, ProjectSettings } from './utils/projectFile';
+import { readWorkbookTables, exportPlanWorkbook, WorkbookTables } from './utils/excel';
+import { parseDelimited, detectMapping, buildImportPreview, ColumnMapping, ImportField, ImportIssue, IMPORT_FIELDS, REQUIRED_FIELDS } from './utils/manifestImport';
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
@@ -12,8 +20,8 @@ const DEMO_MANIFEST: ImportedRow[] = [
   { mainDrawingNo: "7.997.70.552.0", subDrawingNo: "BASE-FRAME-01", length: 10400, width: 1000, height: 560, quantity: 1, weight: 1255 },
   { mainDrawingNo: "7.997.70.619.0", subDrawingNo: "SIDE-SUPPORT-A", length: 8200, width: 740, height: 540, quantity: 2, weight: 946 },
   { mainDrawingNo: "7.997.70.623.0", subDrawingNo: "DRIVE-UNIT-M", length: 4300, width: 510, height: 510, quantity: 2, weight: 360 },
-  { mainDrawingNo: "7.997.70.780.0", subDrawingNo: "CTRL-BOX-77", length: 1230, width: 650, height: 460, quantity: 12, weight: 134 },
-  { mainDrawingNo: "7.947.70.210.0", subDrawingNo: "PANEL-V28", length: 1400, width: 1100, height: 220, quantity: 45, weight: 120 },
+  { mainDrawingNo: "7.997.70.780.0", subDrawingNo: "CTRL-BOX-77", length: 1230, width: 650, height: 460, quantity: 12, weight: 134, orientation: 'UPRIGHT', topOnly: true },
+  { mainDrawingNo: "7.947.70.210.0", subDrawingNo: "PANEL-V28", length: 1400, width: 1100, height: 220, quantity: 45, weight: 120, maxStackLoad: 1500 },
   { mainDrawingNo: "7.980.70.038.0", subDrawingNo: "SMALL-KIT-S", length: 400, width: 210, height: 220, quantity: 180, weight: 90 },
   { mainDrawingNo: "7.000.50.717.0", subDrawingNo: "SPACER-P1", length: 400, width: 210, height: 220, quantity: 120, weight: 90 },
   { mainDrawingNo: "7.997.70.623.0", subDrawingNo: "BOLT-SET-X", length: 150, width: 150, height: 100, quantity: 300, weight: 5 },
@@ -22,145 +30,824 @@ const DEMO_MANIFEST: ImportedRow[] = [
 const CUSTOM_SPEC: ContainerConfig = {
   name: "Custom (11500x1800x1800)",
   length: 11500, width: 1800, height: 1800,
-  maxWeight: 28000
+  maxWeight: 28000,
+  cost: 1
 };
 
+const STANDARD_40HC: ContainerConfig = {
+  name: "40' High Cube Standard",
+  length: 12032, width: 2352, height: 2698,
+  maxWeight: 26480,
+  cost: 1.6
+};
+
+// 厢式货车：后轮轮拱伸入车厢，后门开口比车厢内部略小
+const BOX_TRUCK: ContainerConfig = {
+  name: "Box Truck 7.2m",
+  length: 7200, width: 2450, height: 2500,
+  maxWeight: 9000,
+  cost: 0.7,
+  obstacles: [
+    { name: "Wheel Arch L", position: [4200, 0, 0], dimensions: { length: 1400, width: 300, height: 350 } },
+    { name: "Wheel Arch R", position: [4200, 0, 2150], dimensions: { length: 1400, width: 300, height: 350 } }
+  ],
+  door: { width: 2350, height: 2400 }
+};
+
+// 40尺开顶箱：顶部敞开，允许货物超高
+const OPEN_TOP_40: ContainerConfig = {
+  name: "40' Open Top",
+  length: 12025, width: 2352, height: 2330,
+  maxWeight: 26500,
+  cost: 2.2,
+  allowance: { top: 600 }
+};
+
+// 托盘模板：欧标、美标和可自定义尺寸的托盘
+const PALLET_TEMPLATES: PalletTemplate[] = [
+  { name: "EUR 1200x800", length: 1200, width: 800, deckHeight: 144, maxHeight: 1800, maxWeight: 1000, tareWeight: 25 },
+  { name: "US 1219x1016", length: 1219, width: 1016, deckHeight: 150, maxHeight: 1800, maxWeight: 1200, tareWeight: 22 },
+  { name: "Custom", length: 1200, width: 1000, deckHeight: 150, maxHeight: 1800, maxWeight: 1000, tareWeight: 25 }
+];
+
+// 默认车队：一个自定义柜，其他箱型默认不启用
+const DEFAULT_FLEET: FleetEntry[] = [
+  { container: CUSTOM_SPEC, count: 1 },
+  { container: STANDARD_40HC, count: 0 },
+  { container: BOX_TRUCK, count: 0 },
+  { container: OPEN_TOP_40, count: 0 },
+];
+
+// 待确认的导入：解析后的表格和当前的列映射
+interface ImportDraft {
+  fileName: string;
+  table: string[][];
+  mapping: ColumnMapping;
+  hasHeader: boolean;
+  workbook?: WorkbookTables; // Excel 文件：可切换工作表
+  sheet?: string;
+  readError?: string; // 文件无法解析时的错误信息，预览中显示而不是导入
+}
+
+// 导入预览表最多显示的行数
+const IMPORT_PREVIEW_LIMIT = 200;
+
+// 最后一次改动后多久写入自动保存 (ms)
+const AUTOSAVE_DELAY_MS = 1000;
+
+// jspdf-autotable 在文档上记录上一张表格的位置，但没有提供类型
+const lastTableY = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+// 装载说明截图的像素尺寸 (16:9)
+const SNAPSHOT_SIZE: [number, number] = [1280, 720];
+
 const App: React.FC = () => {
   const [lang, setLang] = useState<Language>('zh');
-  const [container, setContainer] = useState<ContainerConfig>(CUSTOM_SPEC);
+  const [fleet, setFleet] = useState<FleetEntry[]>(DEFAULT_FLEET);
+  const [fleetObjective, setFleetObjective] = useState<FleetObjective>('FEWEST');
+  const [cogWindow, setCogWindow] = useState<CogWindow>(DEFAULT_COG_WINDOW);
+  const [timeBudgetSec, setTimeBudgetSec] = useState(30);
+  const [searchIterations, setSearchIterations] = useState(DEFAULT_SEARCH_ITERATIONS);
+  const [objective, setObjective] = useState<ObjectiveWeights>(DEFAULT_OBJECTIVE);
+  const [alternativePlans, setAlternativePlans] = useState(5);
+  const [planChoices, setPlanChoices] = useState<FleetPlan[]>([]); // 最近一次求解的方案（最佳在前）及备选
+  const [adoptedPlan, setAdoptedPlan] = useState(0);
+  const [previewPlan, setPreviewPlan] = useState<number | null>(null);
+  const [previewContainerId, setPreviewContainerId] = useState('C1');
+  const [placementPolicy, setPlacementPolicy] = useState<PlacementPolicyId | 'RACE'>('RACE');
+  const [seedInput, setSeedInput] = useState(''); // 留空则每次随机生成种子
+  const [planSeed, setPlanSeed] = useState<number | null>(null); // 当前方案的种子
+  const [isSolving, setIsSolving] = useState(false);
+  const [solverProgress, setSolverProgress] = useState<SolverProgress | null>(null);
+  const [solverError, setSolverError] = useState<string | null>(null); // 上次求解失败的原因
+  const solverHandle = useRef<SolverHandle | null>(null);
+  const bestPlanSoFar = useRef<FleetPlan | null>(null);
+  const [containers, setContainers] = useState<PlannedContainer[]>([{ id: 'C1', config: CUSTOM_SPEC }]);
+  const [activeContainerId, setActiveContainerId] = useState('C1');
   const [items, setItems] = useState<CargoItem[]>(() => arrangeStaging(createCargoGroups(DEMO_MANIFEST), CUSTOM_SPEC));
+  const [manifest, setManifest] = useState<ImportedRow[]>(DEMO_MANIFEST); // 当前货物来源的清单行，随项目保存
+  const [recovery, setRecovery] = useState<ProjectFile | null>(() => readAutosave()); // 启动时发现的上次自动保存
+  const [lastAutosave, setLastAutosave] = useState<Date | null>(null);
+  const [autosaveFailed, setAutosaveFailed] = useState(false); // 浏览器存储已满或被禁用
+  // 最近一次保存 / 打开时的方案指纹：内容相同则没有需要恢复的修改，不写自动保存
+  // null = 以下一次自动保存检查时的状态为准（启动、打开文件之后）
+  const savedFingerprint = useRef<string | null>(null);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
   const [isCameraLocked, setIsCameraLocked] = useState(false);
   const [isItemDragging, setIsItemDragging] = useState(false);
+  const [colorMode, setColorMode] = useState<ColorMode>('DRAWING');
+  const [importDraft, setImportDraft] = useState<ImportDraft | null>(null);
+  const [showVoids, setShowVoids] = useState(false);
+  const [securingOptions, setSecuringOptions] = useState<SecuringOptions>(DEFAULT_SECURING_OPTIONS);
+  // 托盘模板列表保存在状态里：修改过的参数（如自定义尺寸）在切换模板后仍然保留
+  const [palletTemplates, setPalletTemplates] = useState<PalletTemplate[]>(PALLET_TEMPLATES);
+  const [palletTemplateName, setPalletTemplateName] = useState(PALLET_TEMPLATES[0].name);
+  const palletTemplate = palletTemplates.find(p => p.name === palletTemplateName) || palletTemplates[0];
+  const setPalletTemplate = (template: PalletTemplate) => {
+    setPalletTemplates(list => list.some(p => p.name === template.name)
+      ? list.map(p => p.name === template.name ? template : p)
+      : [...list, template]);
+    setPalletTemplateName(template.name);
+  };
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
 
   const t = translations[lang];
 
-  const stats = useMemo(() => {
-    const containerVol = container.length * container.width * container.height;
-    let packedVol = 0;
-    let weight = 0;
-    let count = 0;
-    let sumMX = 0, sumMY = 0, sumMZ = 0;
-
-    // 修复逻辑：不仅要检查 X 和 Y，还要检查 Z 轴位置。
-    // 待装区(Staging Area)通常放置在 container.width 之外。
-    const loadedItems = items.filter(i => {
-      const centerX = i.position[0] + i.dimensions.length / 2;
-      const centerY = i.position[1] + i.dimensions.height / 2;
-      const centerZ = i.position[2] + i.dimensions.width / 2;
-      
-      return (
-        centerX >= 0 && centerX <= container.length &&
-        centerY >= 0 && // 允许上方稍微超出（如果需要），但底部不能在地下太深
-        centerZ >= 0 && centerZ <= container.width
-      );
+  const activeContainer = containers.find(c => c.id === activeContainerId) || containers[0];
+  const container = activeContainer.config;
+
+  // 场景中只显示当前集装箱内的货物和待装区货物
+  const visibleItems = useMemo(
+    () => items.filter(i => !i.containerId || i.containerId === activeContainer.id),
+    [items, activeContainer]
+  );
+
+  // 每个集装箱各自的装载统计
+  const containerStats = useMemo(
+    () => containers.map(c => ({ container: c, stats: computeLoadStats(items.filter(i => i.containerId === c.id && !isOutOfBounds(i)), c.config, cogWindow) })),
+    [items, containers, cogWindow]
+  );
+
+  // 当前集装箱的空隙分析，只在打开空隙显示时计算
+  const voidAnalysis = useMemo(
+    () => showVoids ? analyzeVoids(items.filter(i => i.containerId === activeContainer.id && !isOutOfBounds(i)), container, securingOptions) : null,
+    [showVoids, items, activeContainer, container, securingOptions]
+  );
+
+  const stats = useMemo(() => ({
+    ...(containerStats.find(s => s.container.id === activeContainer.id) || containerStats[0]).stats,
+    stagedCount: items.filter(i => !i.containerId).length,
+    outOfBoundsCount: items.filter(isOutOfBounds).length,
+    mandatoryMissingCount: items.filter(i => i.issues?.includes('MANDATORY_UNLOADED')).length
+  }), [containerStats, activeContainer, items]);
+
+  // --- 撤销 / 重做 ---
+
+  // 最新的方案状态：求解回调等异步代码通过它读取，避免拿到旧的闭包值
+  const planRef = useRef<PlanSnapshot>({ items, containers, manifest, planSeed });
+  planRef.current = { items, containers, manifest, planSeed };
+
+  const applySnapshot = (snapshot: PlanSnapshot) => {
+    setItems(snapshot.items);
+    setContainers(snapshot.containers);
+    setManifest(snapshot.manifest);
+    setPlanSeed(snapshot.planSeed);
+    if (!snapshot.containers.some(c => c.id === activeContainerId)) setActiveContainerId(snapshot.containers[0].id);
+  };
+
+  // 执行一条修改方案的命令，并记入历史
+  const runCommand = (kind: CommandKind, next: Partial<PlanSnapshot>, detail?: string) => {
+    const before = planRef.current;
+    const after = { ...before, ...next };
+    planRef.current = after;
+    applySnapshot(after);
+    setHistory(h => pushCommand(h, { kind, detail, at: Date.now(), before, after }));
+  };
+
+  // 撤销 / 重做到历史中的某一步；当前的选中状态保持不变
+  const travelHistory = (step: ReturnType<typeof travelTo>) => {
+    if (!step || isSolving) return;
+    const selectedIds = new Set(planRef.current.items.filter(i => i.selected).map(i => i.id));
+    setHistory(step.history);
+    applySnapshot({
+      ...step.snapshot,
+      items: step.snapshot.items.map(i => !!i.selected === selectedIds.has(i.id) ? i : { ...i, selected: selectedIds.has(i.id) })
     });
+    clearPlanChoices();
+  };
+
+  // 快捷键：Ctrl/⌘+Z 撤销，Ctrl+Y 或 Ctrl/⌘+Shift+Z 重做，R 旋转选中物品（输入框内不拦截）
+  const shortcutHandler = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutHandler.current = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA' || preview) return;
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && key === 'z') {
+      e.preventDefault();
+      travelHistory(e.shiftKey ? redo(history) : undo(history));
+    } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+      e.preventDefault();
+      travelHistory(redo(history));
+    } else if (key === 'r' && !e.ctrlKey && !e.metaKey && !e.altKey && !isItemDragging) {
+      rotateSelected();
+    }
+  };
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutHandler.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const applyPlan = (plan: FleetPlan, kind: CommandKind) => {
+    if (plan.containers.length === 0) return;
+    runCommand(kind, { containers: plan.containers, items: plan.items, planSeed: plan.seed });
+    setActiveContainerId(plan.containers[0].id);
+  };
+
+  // 求解完成：采用最佳方案，并保留备选方案供比较
+  const applySolvedPlan = (plan: FleetPlan) => {
+    applyPlan(plan, 'SOLVE');
+    setPlanChoices([plan, ...(plan.alternatives || [])]);
+    setAdoptedPlan(0);
+    setPreviewPlan(null);
+  };
+
+  // 货物清单变化或手动编辑（移动、旋转、锁定）后，之前求解的方案不再适用，采用它会覆盖这些编辑
+  const clearPlanChoices = () => {
+    setPlanChoices([]);
+    setPreviewPlan(null);
+  };
+
+  const planSummaries = useMemo(() => planChoices.map(p => summarizePlan(p, cogWindow)), [planChoices, cogWindow]);
+
+  const previewPlanChoice = (index: number) => {
+    setPreviewPlan(index);
+    setPreviewContainerId(planChoices[index].containers[0].id);
+  };
+
+  const adoptPlanChoice = (index: number) => {
+    applyPlan(planChoices[index], 'ADOPT_PLAN');
+    setAdoptedPlan(index);
+    setPreviewPlan(null);
+  };
+
+  // 预览备选方案时，场景显示该方案而不是当前方案（此时不能编辑）
+  const preview = previewPlan !== null ? planChoices[previewPlan] : null;
+  const previewContainer = preview ? (preview.containers.find(c => c.id === previewContainerId) || preview.containers[0]) : null;
+  const sceneItems = useMemo(
+    () => preview && previewContainer ? preview.items.filter(i => !i.containerId || i.containerId === previewContainer.id) : visibleItems,
+    [preview, previewContainer, visibleItems]
+  );
+
+  const finishSolver = () => {
+    solverHandle.current = null;
+    setIsSolving(false);
+    setSolverProgress(null);
+  };
+
+  // 采用求解过程中目前为止的最佳方案（取消或 Worker 出错时）；没有则保留当前方案
+  const keepBestPlanSoFar = () => {
+    const best = bestPlanSoFar.current;
+    if (best) {
+      applyPlan({ ...best, items: validatePlan(best.items, best.containers) }, 'SOLVE');
+      clearPlanChoices();
+    }
+  };
+
+  // 在后台 Worker 中求解，界面保持可交互；进度消息里带有目前最佳方案
+  const runAutoPlanner = () => {
+    if (solverHandle.current) return;
+    const seed = seedInput.trim() !== '' && !isNaN(parseInt(seedInput)) ? parseInt(seedInput) : generateSeed();
+    const options = { fleetObjective, placementPolicy, cogWindow, objective, timeBudgetMs: timeBudgetSec * 1000, seed, searchIterations, alternativePlans };
+    bestPlanSoFar.current = null;
+    setSolverError(null);
+    setIsSolving(true);
+    try {
+      solverHandle.current = runSolverInWorker(items, fleet, options, {
+        onProgress: (progress, bestPlan) => {
+          bestPlanSoFar.current = bestPlan;
+          setSolverProgress(progress);
+        },
+        onDone: plan => {
+          finishSolver();
+          applySolvedPlan(plan);
+        },
+        // 不在主线程重新求解（会卡住界面）：提示错误，保留已经得到的最佳方案
+        onError: message => {
+          finishSolver();
+          setSolverError(message);
+          keepBestPlanSoFar();
+        }
+      }, containers);
+    } catch (err) {
+      // 浏览器无法创建 Worker
+      finishSolver();
+      setSolverError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // 取消求解：终止 Worker，并采用目前为止的最佳方案
+  const cancelSolver = () => {
+    if (!solverHandle.current) return;
+    solverHandle.current.cancel();
+    finishSolver();
+    keepBestPlanSoFar();
+  };
+
+  // 组件卸载时终止仍在运行的 Worker
+  useEffect(() => () => solverHandle.current?.cancel(), []);
 
-    loadedItems.forEach(item => {
-      const vol = item.dimensions.length * item.dimensions.width * item.dimensions.height;
-      packedVol += vol;
-      weight += item.weight;
-      count++;
-      
-      const cx = item.position[0] + item.dimensions.length / 2;
-      const cy = item.position[1] + item.dimensions.height / 2;
-      const cz = item.position[2] + item.dimensions.width / 2;
-      sumMX += cx * item.weight;
-      sumMY += cy * item.weight;
-      sumMZ += cz * item.weight;
+  // 切换集装箱；宽度不同时重新排布待装区，避免待装货物与新集装箱重叠。
+  // 重排会移动物品，作为一条命令记入历史
+  const switchContainer = (id: string) => {
+    const target = containers.find(c => c.id === id);
+    if (!target || target.id === activeContainer.id) return;
+    setActiveContainerId(id);
+    if (target.config.width !== container.width && items.some(i => !i.containerId)) {
+      const restaged = new Map(arrangeStaging(items.filter(i => !i.containerId), target.config).map(i => [i.id, i]));
+      runCommand('RESTAGE', { items: items.map(i => restaged.get(i.id) || i) }, target.config.name);
+    }
+  };
+
+  // 锁定 / 解锁物品：锁定的物品不能拖动，自动排布时原地保留
+  const togglePin = (id: string) => {
+    const target = items.find(i => i.id === id);
+    if (!target) return;
+    runCommand('PIN', { items: items.map(i => i.id === id ? { ...i, pinned: !i.pinned } : i) }, target.drawingNo);
+    clearPlanChoices();
+  };
+
+  // 移动物品（拖拽结束）：拖到待装区即回到待装区；其余位置都归入当前集装箱，越界的由 validatePlan 标红
+  const moveItem = (id: string, pos: [number, number, number]) => {
+    const target = items.find(i => i.id === id);
+    if (!target || target.position.every((v, idx) => v === pos[idx])) return;
+    runCommand('MOVE', {
+      items: validatePlan(items.map(i => {
+        if (i.id !== id) return i;
+        const moved = { ...i, position: pos, stagingReason: undefined };
+        return { ...moved, containerId: getItemZone(moved, container) === 'STAGING' ? undefined : activeContainer.id };
+      }), containers)
+    }, target.drawingNo);
+    clearPlanChoices();
+  };
+
+  // 把选中的物品绕竖直轴旋转 90°；锁定的、姿态约束不允许的物品不动
+  const rotateSelected = () => {
+    let rotated = 0;
+    const next = items.map(i => {
+      if (!i.selected || i.pinned) return i;
+      const turned = rotateItemYaw(i);
+      if (!turned) return i;
+      rotated++;
+      return turned;
     });
+    if (rotated === 0) return;
+    runCommand('ROTATE', { items: validatePlan(next, containers) }, rotated === 1 ? next.find((i, idx) => i !== items[idx])!.drawingNo : `${rotated}`);
+    clearPlanChoices();
+  };
 
-    return {
-      util: (packedVol / containerVol) * 100,
-      volM3: packedVol / 1e9,
-      totalWeight: weight,
-      loadedCount: count,
-      stagedCount: items.length - count,
-      cog: {
-        x: weight > 0 ? Math.round(sumMX / weight) : 0,
-        y: weight > 0 ? Math.round(sumMY / weight) : 0,
-        z: weight > 0 ? Math.round(sumMZ / weight) : 0
-      }
-    };
-  }, [items, container]);
+  // 选中物品：按住 Ctrl / ⌘ 时切换该物品的选中状态（多选），否则只选中该物品
+  const selectItem = (id: string, additive: boolean) => {
+    setItems(prev => prev.map(i => ({ ...i, selected: additive ? (i.id === id ? !i.selected : i.selected) : i.id === id })));
+  };
+
+  // 组合件：选中的物品须在同一集装箱（或都在待装区）内
+  const selectedItems = items.filter(i => i.selected);
+  const canCombine = selectedItems.length > 1 && selectedItems.every(i => i.containerId === selectedItems[0].containerId);
+  const selectedGroup = selectedItems.length === 1 && selectedItems[0].isGroup ? selectedItems[0] : null;
+
+  const combineSelected = () => {
+    if (!canCombine) return;
+    const group = { ...combineItems(selectedItems), selected: true };
+    // 组合件按整体包围盒参与碰撞检测：成员之间夹着的其他货物或障碍物会与它重叠
+    const config = containers.find(c => c.id === group.containerId)?.config || container;
+    if (checkCollision(group, items.filter(i => !i.selected && i.containerId === group.containerId), config)) {
+      alert(t.alertCombineOverlap);
+      return;
+    }
+    runCommand('COMBINE', { items: validatePlan([...items.filter(i => !i.selected), group], containers) }, group.drawingNo);
+    clearPlanChoices();
+  };
+
+  const splitSelectedGroup = () => {
+    if (!selectedGroup) return;
+    runCommand('SPLIT', { items: validatePlan(items.flatMap(i => i.id === selectedGroup.id ? splitGroup(i) : [i]), containers) }, selectedGroup.drawingNo);
+    clearPlanChoices();
+  };
+
+  // 托盘化：选中物品所在的清单行（主号 + 子号）全部装上托盘，托盘放回待装区等待装箱
+  const palletizeSelected = () => {
+    const rowKey = (i: CargoItem) => `${i.drawingNo}|${i.subDrawingNo || ''}`;
+    const rowKeys = new Set(items.filter(i => i.selected && !i.isGroup).map(rowKey));
+    const targets = items.filter(i => !i.isGroup && !i.pinned && rowKeys.has(rowKey(i)));
+    if (targets.length === 0) return;
+    const { pallets, leftover } = palletizeItems(targets, palletTemplate);
+    const targetIds = new Set(targets.map(i => i.id));
+    const rest = items.filter(i => !targetIds.has(i.id));
+    const staged = arrangeStaging([...rest.filter(i => !i.containerId), ...pallets, ...leftover], container);
+    runCommand('PALLETIZE', { items: validatePlan([...rest.filter(i => i.containerId), ...staged], containers) }, `${pallets.length}`);
+    clearPlanChoices();
+  };
+
+  const toggleExpanded = (id: string) => {
+    setItems(prev => prev.map(i => i.id === id ? { ...i, expanded: !i.expanded } : i));
+  };
+
+  const updateFleetEntry = (index: number, patch: { count?: number, cost?: number }) => {
+    setFleet(prev => prev.map((entry, i) => i !== index ? entry : {
+      container: patch.cost !== undefined ? { ...entry.container, cost: patch.cost } : entry.container,
+      count: patch.count !== undefined ? patch.count : entry.count
+    }));
+  };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    const isExcel = /\.xlsx?$/i.test(file.name);
     const reader = new FileReader();
     reader.onload = (event) => {
-      const text = event.target?.result as string;
-      const lines = text.split('\n');
-      const rows: ImportedRow[] = [];
-      for (let i = 1; i < lines.length; i++) {
-        const c = lines[i].split(',').map(s => s.trim());
-        if (c.length >= 7) {
-          rows.push({
-            mainDrawingNo: c[0], subDrawingNo: c[1],
-            length: parseFloat(c[2]), width: parseFloat(c[3]), height: parseFloat(c[4]),
-            quantity: parseInt(c[5]) || 1, weight: parseFloat(c[6]) || 0
-          });
+      const result = event.target?.result;
+      if (isExcel) {
+        let workbook: WorkbookTables;
+        try {
+          workbook = readWorkbookTables(result as ArrayBuffer);
+        } catch (err) {
+          setImportDraft({ fileName: file.name, table: [], mapping: {}, hasHeader: false, readError: err instanceof Error ? err.message : String(err) });
+          return;
+        }
+        // 默认选第一个有数据的工作表
+        const sheet = workbook.sheetNames.find(name => workbook.tables[name].length > 0);
+        if (!sheet) {
+          alert(t.alertNoData);
+          return;
         }
+        const table = workbook.tables[sheet];
+        setImportDraft({ fileName: file.name, table, ...detectMapping(table), workbook, sheet });
+        return;
+      }
+      const table = parseDelimited(result as string);
+      if (table.length === 0) {
+        alert(t.alertNoData);
+        return;
+      }
+      setImportDraft({ fileName: file.name, table, ...detectMapping(table) });
+    };
+    if (isExcel) reader.readAsArrayBuffer(file);
+    else reader.readAsText(file);
+    // 允许再次选择同一个文件
+    e.target.value = '';
+  };
+
+  const importPreview = useMemo(
+    () => importDraft ? buildImportPreview(importDraft.table, importDraft.mapping, importDraft.hasHeader) : null,
+    [importDraft]
+  );
+
+  // 切换工作表后按新表头重新识别映射
+  const selectImportSheet = (sheet: string) => {
+    if (!importDraft?.workbook) return;
+    const table = importDraft.workbook.tables[sheet];
+    setImportDraft({ ...importDraft, table, ...detectMapping(table), sheet });
+  };
+
+  const setImportColumn = (field: ImportField, col: number | undefined) => {
+    if (!importDraft) return;
+    const mapping = { ...importDraft.mapping };
+    if (col === undefined) delete mapping[field];
+    else mapping[field] = col;
+    setImportDraft({ ...importDraft, mapping });
+  };
+
+  const confirmImport = () => {
+    if (!importPreview || importPreview.validRows.length === 0) {
+      alert(t.alertNoData);
+      return;
+    }
+    runCommand('IMPORT', {
+      items: arrangeStaging(createCargoGroups(importPreview.validRows), container),
+      manifest: importPreview.validRows
+    }, importDraft?.fileName);
+    clearPlanChoices();
+    setImportDraft(null);
+  };
+
+  const describeIssue = (issue: ImportIssue): string => {
+    const text = t.importIssues[issue.code];
+    if (issue.code === 'DUPLICATE') return `${text} #${issue.duplicateOf}`;
+    return issue.field ? `${text} (${t.importFields[issue.field]})` : text;
+  };
+
+  // --- 项目保存 / 打开 / 自动保存 ---
+
+  const projectSettings: ProjectSettings = useMemo(() => ({
+    fleet, fleetObjective, cogWindow, timeBudgetSec, searchIterations, objective,
+    alternativePlans, placementPolicy, seedInput, securingOptions, palletTemplate
+  }), [fleet, fleetObjective, cogWindow, timeBudgetSec, searchIterations, objective, alternativePlans, placementPolicy, seedInput, securingOptions, palletTemplate]);
+
+  const buildProject = (): ProjectFile =>
+    createProject({ containers, activeContainerId, manifest, items, planSeed, settings: projectSettings });
+
+  const loadProject = (project: ProjectFile) => {
+    // 旧版本文件可能缺少后来新增的设置项，用当前值补齐
+    const settings = { ...projectSettings, ...project.settings };
+    runCommand('OPEN_PROJECT', { containers: project.containers, items: project.items, manifest: project.manifest, planSeed: project.planSeed });
+    setActiveContainerId(project.activeContainerId);
+    setFleet(settings.fleet);
+    setFleetObjective(settings.fleetObjective);
+    setCogWindow(settings.cogWindow);
+    setTimeBudgetSec(settings.timeBudgetSec);
+    setSearchIterations(settings.searchIterations);
+    setObjective(settings.objective);
+    setAlternativePlans(settings.alternativePlans);
+    setPlacementPolicy(settings.placementPolicy);
+    setSeedInput(settings.seedInput);
+    setSecuringOptions(settings.securingOptions);
+    setPalletTemplate(settings.palletTemplate);
+    clearPlanChoices();
+  };
+
+  const saveProject = () => {
+    const project = buildProject();
+    const blob = new Blob([serializeProject(project)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `LoadPlan_${Date.now()}.scproj.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    // 已保存到文件，不再需要崩溃恢复
+    savedFingerprint.current = getProjectFingerprint(project);
+    clearAutosave();
+    setLastAutosave(null);
+  };
+
+  const handleProjectOpen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const result = parseProject(event.target?.result as string);
+      if ('error' in result) {
+        alert(t.projectErrors[result.error]);
+        return;
       }
-      if (rows.length > 0) setItems(arrangeStaging(createCargoGroups(rows), container));
+      savedFingerprint.current = null;
+      clearAutosave();
+      setLastAutosave(null);
+      loadProject(result.project);
+      setRecovery(null);
+      if (result.skippedItems > 0) alert(`${result.skippedItems} ${t.projectItemsSkipped}`);
     };
     reader.readAsText(file);
+    e.target.value = '';
   };
 
+  const restoreAutosave = () => {
+    if (recovery) {
+      // 恢复的内容从未保存到文件，保持"有未保存修改"的状态
+      savedFingerprint.current = '';
+      loadProject(recovery);
+    }
+    setRecovery(null);
+  };
+
+  const discardAutosave = () => {
+    clearAutosave();
+    setRecovery(null);
+  };
+
+  // 方案变化后稍作延迟再自动保存；只在有未保存的修改时保留自动保存，
+  // 这样只有异常退出才会在下次启动时提示恢复。恢复提示未处理前不覆盖上次的自动保存
+  useEffect(() => {
+    if (recovery) return;
+    const timer = setTimeout(() => {
+      const project = buildProject();
+      const fingerprint = getProjectFingerprint(project);
+      if (savedFingerprint.current === null) savedFingerprint.current = fingerprint;
+      if (fingerprint === savedFingerprint.current) {
+        clearAutosave();
+        setLastAutosave(null);
+        setAutosaveFailed(false);
+        return;
+      }
+      const written = writeAutosave(project);
+      setAutosaveFailed(!written);
+      if (written) setLastAutosave(new Date());
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [recovery, containers, activeContainerId, manifest, items, planSeed, projectSettings]);
+
+  // PDF / Excel 共用的报告数据
+  const buildReport = () => buildPlanReport(items, containerStats, cogWindow, securingOptions);
+
   const exportStandardPDF = () => {
     const doc = new jsPDF();
     const now = new Date().toLocaleString();
     const docId = Date.now().toString();
+    const report = buildReport();
 
     doc.setFontSize(22);
     doc.text("Container Loading Manifest", 14, 20);
-    doc.setFontSize(14);
-    doc.text("1. Container Specifications", 14, 46);
-    doc.setDrawColor(220, 220, 220);
-    doc.rect(14, 50, 182, 30);
-    doc.setFontSize(10);
-    doc.text(`Type/Name: ${container.name}`, 18, 58);
-    doc.text(`Dimensions: ${container.length}x${container.width}x${container.height}mm`, 18, 66);
-    doc.text(`Max Capacity: ${container.maxWeight}kg`, 18, 74);
-
-    const analysisRows = [
-      ["Total Loaded Weight", `${stats.totalWeight.toFixed(2)} kg`, "OK"],
-      ["Volume Utilization", `${stats.util.toFixed(2)} %`, `${stats.volM3.toFixed(2)} m3`],
-      ["Loaded Item Count", `${stats.loadedCount} pcs`, ""],
-      ["CoG (X, Y, Z)", `${stats.cog.x}, ${stats.cog.y}, ${stats.cog.z} mm`, "Ref: Corner"]
-    ];
-    autoTable(doc, {
-      startY: 90,
-      head: [['Metric', 'Value', 'Status']],
-      body: analysisRows,
-      theme: 'grid'
-    });
+    doc.setFontSize(9);
+    doc.text(`Generated: ${now}${planSeed !== null ? `   |   Solver Seed: ${planSeed}` : ''}`, 14, 30);
 
-    const packedItems = items.filter(i => {
-      const centerX = i.position[0] + i.dimensions.length / 2;
-      const centerZ = i.position[2] + i.dimensions.width / 2;
-      return centerX >= 0 && centerX <= container.length && centerZ >= 0 && centerZ <= container.width;
-    });
-    
-    const tableData = packedItems.map((item, idx) => [
-      idx + 1,
-      item.drawingNo,
-      item.subDrawingNo || "",
-      `${item.dimensions.length}x${item.dimensions.width}x${item.dimensions.height}`,
-      item.weight,
-      `${Math.round(item.position[0])},${Math.round(item.position[1])},${Math.round(item.position[2])}`
-    ]);
-
-    autoTable(doc, {
-      // @ts-ignore
-      startY: doc.lastAutoTable.finalY + 10,
-      head: [['#', 'Main No', 'Sub No', 'Dims', 'Wgt', 'Pos']],
-      body: tableData
+    // 每个集装箱一节，从第二个集装箱起另起一页
+    report.containers.forEach(({ planned, analysisRows, itemRows, pallets, securing, outOfBoundsItems }, cIdx) => {
+      const cfg = planned.config;
+      let top = 46;
+      if (cIdx > 0) {
+        doc.addPage();
+        top = 20;
+      }
+
+      doc.setFontSize(14);
+      doc.text(`${cIdx + 1}. Container ${planned.id} Specifications`, 14, top);
+      doc.setDrawColor(220, 220, 220);
+      doc.rect(14, top + 4, 182, 30);
+      doc.setFontSize(10);
+      doc.text(`Type/Name: ${cfg.name}`, 18, top + 12);
+      doc.text(`Dimensions: ${cfg.length}x${cfg.width}x${cfg.height}mm`, 18, top + 20);
+      doc.text(`Max Capacity: ${cfg.maxWeight}kg`, 18, top + 28);
+
+      autoTable(doc, {
+        startY: top + 44,
+        head: [['Metric', 'Value', 'Status']],
+        body: analysisRows,
+        theme: 'grid'
+      });
+
+      // 组合件下方逐行列出零件（缩进，不单独编号）；托盘内容在后面按托盘单独列出
+      autoTable(doc, {
+        startY: lastTableY(doc) + 10,
+        head: [['#', 'Main No', 'Sub No', 'Dims', 'Wgt', 'Pos']],
+        body: itemRows.map(row => [
+          row.index ?? "",
+          row.isPart ? `  - ${row.drawingNo}` : row.drawingNo,
+          row.subDrawingNo,
+          `${row.length}x${row.width}x${row.height}`,
+          row.weight,
+          `${row.x},${row.y},${row.z}`
+        ])
+      });
+
+      // 每个托盘一张表：按图号汇总托盘上的货物
+      pallets.forEach(({ pallet, lines }) => {
+        autoTable(doc, {
+          startY: lastTableY(doc) + 10,
+          head: [[`Pallet ${pallet.subDrawingNo} (${pallet.dimensions.length}x${pallet.dimensions.width}x${pallet.dimensions.height}, ${pallet.weight} kg)`, 'Sub No', 'Qty', 'Wgt']],
+          body: lines.map(line => [line.drawingNo, line.subDrawingNo, line.qty, line.weight]),
+          headStyles: { fillColor: [161, 98, 7] }
+        });
+      });
+
+      // 加固材料清单（空隙填充与绑扎）
+      if (securing.materials.length > 0) {
+        autoTable(doc, {
+          startY: lastTableY(doc) + 10,
+          head: [['Securing Material', 'Qty', 'Unit', 'Note']],
+          body: securing.materials.map(m => [
+            translations.en.securing[m.kind],
+            m.quantity,
+            translations.en.securingUnits[m.unit],
+            m.kind === 'LASHING'
+              ? `${securing.lashingRows.length} unrestrained row(s) facing the door`
+              : `${securing.voids.filter(v => v.treatment === m.kind).length} gap(s)`
+          ]),
+          headStyles: { fillColor: [14, 116, 144] }
+        });
+      }
+
+      if (outOfBoundsItems.length > 0) {
+        autoTable(doc, {
+          startY: lastTableY(doc) + 10,
+          head: [[`Not Loaded - ${translations.en.issues.OUT_OF_BOUNDS}`, 'Sub No', 'Dims', 'Pos']],
+          body: outOfBoundsItems.map(item => [
+            item.drawingNo,
+            item.subDrawingNo || "",
+            `${item.dimensions.length}x${item.dimensions.width}x${item.dimensions.height}`,
+            `${Math.round(item.position[0])},${Math.round(item.position[1])},${Math.round(item.position[2])}`
+          ]),
+          headStyles: { fillColor: [239, 68, 68] }
+        });
+      }
     });
 
+    // 多个集装箱时汇总整批货物的加固材料
+    if (report.containers.length > 1 && report.securingTotal.length > 0) {
+      autoTable(doc, {
+        startY: lastTableY(doc) + 10,
+        head: [['Securing Material (All Containers)', 'Qty', 'Unit']],
+        body: report.securingTotal.map(m => [translations.en.securing[m.kind], m.quantity, translations.en.securingUnits[m.unit]]),
+        headStyles: { fillColor: [14, 116, 144] }
+      });
+    }
+
+    // 必须发运但未装入的货物单独列在最后
+    if (report.mandatoryMissing.length > 0) {
+      doc.addPage();
+      autoTable(doc, {
+        startY: 20,
+        head: [[`${translations.en.issues.MANDATORY_UNLOADED}`, 'Sub No', 'Dims', 'Wgt', 'Reason']],
+        body: report.mandatoryMissing.map(item => [
+          item.drawingNo,
+          item.subDrawingNo || "",
+          `${item.dimensions.length}x${item.dimensions.width}x${item.dimensions.height}`,
+          item.weight,
+          item.stagingReason ? translations.en.stagingReasons[item.stagingReason] : ""
+        ]),
+        headStyles: { fillColor: [239, 68, 68] }
+      });
+    }
+
     doc.save(`LoadPlan_${docId}.pdf`);
   };
 
+  // 装载说明：封面总览图 + 图号位置索引 + 每个装载步骤一页（截图高亮本步货物，下方列出本步货物）
+  const exportLoadingInstructions = () => {
+    const doc = new jsPDF();
+    const now = new Date().toLocaleString();
+    const docId = Date.now().toString();
+    const report = buildReport();
+    const imageWidth = 182;
+    const imageHeight = imageWidth * SNAPSHOT_SIZE[1] / SNAPSHOT_SIZE[0];
+
+    // 浏览器不支持 WebGL 时仍然输出文字部分，并在封面注明没有截图
+    let renderer: SnapshotRenderer | null = null;
+    try {
+      renderer = createSnapshotRenderer(SNAPSHOT_SIZE[0], SNAPSHOT_SIZE[1]);
+    } catch {
+      renderer = null;
+    }
+
+    try {
+      doc.setFontSize(22);
+      doc.text("Loading Instructions", 14, 20);
+      doc.setFontSize(9);
+      doc.text(`Generated: ${now}${planSeed !== null ? `   |   Solver Seed: ${planSeed}` : ''}`, 14, 30);
+
+      let top = 38;
+      if (renderer) {
+        const overview = renderer.render(report.containers.map(c => ({ config: c.planned.config, items: c.steps.flatMap(s => s.entries.map(e => e.item)) })), 'ISOMETRIC');
+        doc.addImage(overview, 'JPEG', 14, top, imageWidth, imageHeight);
+        top += imageHeight + 8;
+      } else {
+        doc.setTextColor(239, 68, 68);
+        doc.text("3D images were skipped: this browser could not start WebGL rendering.", 14, top);
+        doc.setTextColor(0, 0, 0);
+        top += 8;
+      }
+
+      autoTable(doc, {
+        startY: top,
+        head: [['Container', 'Type/Name', 'Items', 'Weight (kg)', 'Steps']],
+        body: report.containers.map(({ planned, stats, steps }) => [planned.id, planned.config.name, stats.loadedCount, stats.totalWeight.toFixed(2), steps.length]),
+        theme: 'grid'
+      });
+
+      // 每个图号装在哪个集装箱的哪几步
+      doc.addPage();
+      doc.setFontSize(14);
+      doc.text("Drawing Index", 14, 20);
+      autoTable(doc, {
+        startY: 26,
+        head: [['Main No', 'Sub No', 'Qty', 'Container', 'Step(s)']],
+        body: report.drawingLocations.map(loc => [loc.drawingNo, loc.subDrawingNo, loc.qty, loc.containerId, loc.steps.join(', ')])
+      });
+
+      report.containers.forEach(({ planned, steps }) => {
+        const cfg = planned.config;
+        // 站在箱门口朝箱内看：z = 0 一侧在右手边
+        const side = (item: CargoItem) => {
+          const center = item.position[2] + item.dimensions.width / 2;
+          return center < cfg.width / 3 ? 'Right' : center > cfg.width * 2 / 3 ? 'Left' : 'Center';
+        };
+        let seq = 0;
+        steps.forEach((step, sIdx) => {
+          doc.addPage();
+          doc.setFontSize(14);
+          doc.text(`Container ${planned.id} - Step ${step.index} of ${steps.length}`, 14, 20);
+          doc.setFontSize(9);
+          doc.text(`${step.entries.length} item(s), ${step.depthFrom}-${step.depthTo} mm from the front wall   |   ${cfg.name}`, 14, 26);
+
+          let tableTop = 32;
+          if (renderer) {
+            const loaded = steps.slice(0, sIdx + 1).flatMap(s => s.entries.map(e => e.item));
+            const image = renderer.render([{ config: cfg, items: loaded }], 'SCENE', new Set(step.entries.map(e => e.item.id)));
+            doc.addImage(image, 'JPEG', 14, tableTop, imageWidth, imageHeight);
+            tableTop += imageHeight + 6;
+          }
+
+          autoTable(doc, {
+            startY: tableTop,
+            head: [['#', 'Main No', 'Sub No', 'Dims', 'Wgt', 'Depth', 'Tier', 'Side', 'Pos']],
+            body: step.entries.flatMap(({ item, tier }) => toItemRows(item, ++seq).map(row => [
+              row.index ?? "",
+              row.isPart ? `  - ${row.drawingNo}` : row.drawingNo,
+              row.subDrawingNo,
+              `${row.length}x${row.width}x${row.height}`,
+              row.weight,
+              row.isPart ? "" : row.x,
+              row.isPart ? "" : tier,
+              row.isPart ? "" : side(item),
+              `${row.x},${row.y},${row.z}`
+            ])),
+            styles: { fontSize: 8 }
+          });
+          doc.text("Depth: mm from the front wall. Side: as seen from the door.", 14, lastTableY(doc) + 6);
+        });
+      });
+    } finally {
+      renderer?.dispose();
+    }
+
+    doc.save(`LoadingInstructions_${docId}.pdf`);
+  };
+
+  const exportExcel = () => {
+    exportPlanWorkbook(buildReport(), `LoadPlan_${Date.now()}.xlsx`);
+  };
+
   return (
     <div className="fixed inset-0 flex bg-[#0d0d0d] text-[#eee] font-sans overflow-hidden">
       <style>{`
@@ -182,15 +869,19 @@ const App: React.FC = () => {
       {/* Main 3D Scene Container */}
       <main className="flex-1 relative bg-[#111]">
         <Scene 
-          container={container}
-          items={items}
+          container={previewContainer ? previewContainer.config : container}
+          items={sceneItems}
           showLabels={false}
           cameraLocked={isCameraLocked}
           isItemDragging={isItemDragging}
           onItemDragStateChange={setIsItemDragging}
-          onSelectItem={(id) => setItems(prev => prev.map(i => ({ ...i, selected: i.id === id })))}
-          onUpdateItem={(id, pos) => setItems(prev => prev.map(i => i.id === id ? { ...i, position: pos } : i))}
+          onSelectItem={preview ? () => {} : selectItem}
+          onUpdateItem={preview ? () => {} : moveItem}
+          onTogglePin={preview ? () => {} : togglePin}
           lang={lang}
+          colorMode={colorMode}
+          voids={preview ? [] : voidAnalysis?.voids}
+          lashingRows={preview ? [] : voidAnalysis?.lashingRows}
         />
         
         {/* Overlay Branding */}
@@ -204,6 +895,59 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {/* Crash Recovery Banner */}
+        {recovery && (
+          <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-30">
+            <div className="glass-panel p-3 rounded-2xl flex items-center gap-3 shadow-2xl border border-blue-500/40">
+              <span className="px-2 text-[11px] font-black uppercase tracking-widest text-blue-400">
+                {t.recoveryFound} · {new Date(recovery.savedAt).toLocaleString()} · {recovery.items.length} {lang === 'zh' ? '件' : 'pcs'}
+              </span>
+              <button onClick={restoreAutosave} className="px-4 py-2 btn-solve text-[10px] font-black uppercase tracking-widest">{t.restoreSession}</button>
+              <button onClick={discardAutosave} className="px-4 py-2 btn-reset text-[10px] font-black uppercase tracking-widest">{t.discardSession}</button>
+            </div>
+          </div>
+        )}
+
+        {/* Plan Preview Banner */}
+        {preview && previewPlan !== null && (
+          <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-20">
+            <div className="glass-panel p-3 rounded-2xl flex items-center gap-3 shadow-2xl border border-amber-500/40">
+              <span className="px-2 text-[11px] font-black uppercase tracking-widest text-amber-400">{t.previewing} #{previewPlan + 1}</span>
+              {preview.containers.length > 1 && preview.containers.map(c => (
+                <button
+                  key={c.id}
+                  onClick={() => setPreviewContainerId(c.id)}
+                  className={`px-3 py-2 rounded-xl text-[10px] font-black ${c.id === previewContainer?.id ? 'bg-amber-500 text-black' : 'text-gray-400 hover:bg-white/5'}`}
+                >
+                  {c.id}
+                </button>
+              ))}
+              <button onClick={() => adoptPlanChoice(previewPlan)} className="px-4 py-2 btn-solve text-[10px] font-black uppercase tracking-widest">{t.adoptPlan}</button>
+              <button onClick={() => setPreviewPlan(null)} className="px-4 py-2 btn-reset text-[10px] font-black uppercase tracking-widest">{t.exitPreview}</button>
+            </div>
+          </div>
+        )}
+
+        {/* Container Switcher */}
+        {containers.length > 1 && !preview && (
+          <div className="absolute top-8 left-1/2 -translate-x-1/2 z-10">
+            <div className="glass-panel p-2 rounded-2xl flex gap-2 shadow-2xl">
+              {containerStats.map(({ container: planned, stats: cStats }) => (
+                <button
+                  key={planned.id}
+                  onClick={() => switchContainer(planned.id)}
+                  className={`px-4 py-2 rounded-xl text-left transition-all ${planned.id === activeContainer.id ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-white/5'}`}
+                >
+                  <div className="text-[11px] font-black uppercase tracking-widest">{planned.id} · {planned.config.name}</div>
+                  <div className="text-[10px] font-mono mt-1 opacity-80">
+                    {cStats.util.toFixed(1)}% | {cStats.loadedCount} {lang === 'zh' ? '件' : 'pcs'} | <span className={cStats.weightStatus === 'OK' ? '' : 'text-red-300'}>{(cStats.totalWeight/1000).toFixed(2)} T</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Operation Instructions Overlay */}
         <div className="absolute top-8 right-8 z-10 pointer-events-none">
           <div className="glass-panel p-5 rounded-2xl pointer-events-auto border border-white/5 shadow-2xl">
@@ -251,10 +995,57 @@ const App: React.FC = () => {
                    <div className="space-y-1 font-mono text-xs">
                      <p className="text-emerald-400 font-bold">{stats.loadedCount} {lang === 'zh' ? '已装' : 'Loaded'}</p>
                      <p className="text-orange-400 font-bold">{stats.stagedCount} {lang === 'zh' ? '待装' : 'Staged'}</p>
+                     {stats.outOfBoundsCount > 0 && (
+                       <p className="text-red-400 font-bold">{stats.outOfBoundsCount} {lang === 'zh' ? '越界' : 'Out of Bounds'}</p>
+                     )}
+                     {stats.mandatoryMissingCount > 0 && (
+                       <p className="text-red-400 font-bold">{stats.mandatoryMissingCount} {t.mandatoryMissing}</p>
+                     )}
                      <p className="text-white font-bold">{(stats.totalWeight/1000).toFixed(2)} T</p>
                    </div>
                 </div>
              </div>
+
+             <div className="border-t border-white/5 pt-6">
+               <div className="flex justify-between items-center mb-3">
+                 <span className="label-micro !mb-0">{lang === 'zh' ? '重心范围' : 'CoG Window'}</span>
+                 <span className={`px-3 py-1 rounded-lg text-[10px] font-black tracking-widest ${stats.cogStatus === 'OK' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400'}`}>{t.cogStatus[stats.cogStatus]}</span>
+               </div>
+               {/* 俯视图：外框为集装箱，虚线框为允许的重心范围，圆点为当前重心（右侧为箱门） */}
+               <svg viewBox="0 0 240 64" className="w-full">
+                 <rect x={1} y={1} width={238} height={62} rx={4} fill="rgba(0,0,0,0.4)" stroke="#374151" />
+                 <line x1={239} y1={8} x2={239} y2={56} stroke="#60a5fa" strokeWidth={3} />
+                 <rect
+                   x={120 - cogWindow.longitudinal * 238} y={32 - cogWindow.lateral * 62}
+                   width={cogWindow.longitudinal * 476} height={cogWindow.lateral * 124}
+                   fill="rgba(16,185,129,0.12)" stroke="#10b981" strokeDasharray="3 2"
+                 />
+                 <line x1={120} y1={1} x2={120} y2={63} stroke="#374151" strokeDasharray="2 3" />
+                 <line x1={1} y1={32} x2={239} y2={32} stroke="#374151" strokeDasharray="2 3" />
+                 {stats.loadedCount > 0 && (
+                   <circle
+                     cx={120 + Math.max(-0.5, Math.min(0.5, stats.cogOffset.x)) * 238}
+                     cy={32 + Math.max(-0.5, Math.min(0.5, stats.cogOffset.z)) * 62}
+                     r={4} fill={stats.cogStatus === 'OK' ? '#10b981' : '#ef4444'}
+                   />
+                 )}
+               </svg>
+               <p className="font-mono text-[10px] text-gray-500 mt-2">
+                 {lang === 'zh' ? '纵向' : 'Long'} {(stats.cogOffset.x * 100).toFixed(1)}% / ±{(cogWindow.longitudinal * 100).toFixed(0)}%
+                 {'  ·  '}
+                 {lang === 'zh' ? '横向' : 'Lat'} {(stats.cogOffset.z * 100).toFixed(1)}% / ±{(cogWindow.lateral * 100).toFixed(0)}%
+               </p>
+             </div>
+
+             <div className="border-t border-white/5 pt-6">
+               <div className="flex justify-between items-center mb-3">
+                 <span className="label-micro !mb-0">{lang === 'zh' ? '载重状态' : 'Payload Status'}</span>
+                 <span className={`px-3 py-1 rounded-lg text-[10px] font-black tracking-widest ${stats.weightStatus === 'OK' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400'}`}>{t.weightStatus[stats.weightStatus]}</span>
+               </div>
+               <p className="font-mono text-xs text-gray-500">
+                 <span className={`font-bold ${stats.weightStatus === 'OK' ? 'text-white' : 'text-red-400'}`}>{(stats.totalWeight/1000).toFixed(2)}</span> / {(container.maxWeight/1000).toFixed(2)} T
+               </p>
+             </div>
           </div>
         </div>
       </main>
@@ -274,19 +1065,269 @@ const App: React.FC = () => {
           {/* Loading Solver Section */}
           <section className="space-y-4">
             <h3 className="label-micro text-[10px] text-gray-500 mb-4">{lang === 'zh' ? '装载求解引擎' : 'Loading Solver'}</h3>
-            <button 
-                onClick={() => setItems(autoPack(items, container))}
-                className="w-full py-5 btn-solve text-sm font-black flex items-center justify-center gap-3 uppercase tracking-widest"
-             >
-               🚀 {lang === 'zh' ? '执行自动排布' : 'Run Auto-Planner'}
-            </button>
+            <div className="bg-[#111] rounded-[1.5rem] border border-white/5 p-4 space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="label-micro !mb-0 text-[9px]">{lang === 'zh' ? '可用集装箱' : 'Container Fleet'}</span>
+                <div className="flex bg-black p-1 rounded-lg border border-white/10">
+                  {(['FEWEST', 'CHEAPEST'] as FleetObjective[]).map(obj => (
+                    <button key={obj} onClick={() => setFleetObjective(obj)} className={`px-2 py-1 text-[9px] font-black rounded-md ${fleetObjective === obj ? 'lang-active' : 'text-gray-500'}`}>
+                      {obj === 'FEWEST' ? (lang === 'zh' ? '最少柜数' : 'Fewest') : (lang === 'zh' ? '最低成本' : 'Cheapest')}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-[10px] pb-2 border-b border-white/5">
+                <span className="flex-1 font-black text-gray-300">{t.placementPolicy}</span>
+                <select value={placementPolicy} onChange={e => setPlacementPolicy(e.target.value as PlacementPolicyId | 'RACE')} className="bg-black border border-white/10 rounded-md px-2 py-1 font-bold text-white">
+                  {(['RACE', ...PLACEMENT_POLICY_IDS] as const).map(id => (
+                    <option key={id} value={id}>{t.placementPolicies[id]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="text-[10px] pb-2 border-b border-white/5 space-y-2">
+                <span className="font-black text-gray-300">{t.objective}</span>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(DEFAULT_OBJECTIVE) as (keyof ObjectiveWeights)[]).map(key => (
+                    <label key={key} className="flex items-center gap-1">
+                      <span className="flex-1 text-gray-600 font-bold">{t.objectiveTerms[key]}</span>
+                      <input type="number" min={0} step={0.5} value={objective[key]} onChange={e => setObjective(o => ({ ...o, [key]: Math.max(0, parseFloat(e.target.value) || 0) }))} className="w-10 bg-black border border-white/10 rounded-md px-1 py-1 font-mono text-white" />
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-[10px] pb-2 border-b border-white/5">
+                <span className="flex-1 font-black text-gray-300">{lang === 'zh' ? '重心范围 ±%' : 'CoG Window ±%'}</span>
+                <label className="text-gray-600 font-bold">{lang === 'zh' ? '纵向' : 'Long'}</label>
+                <input type="number" min={0} max={50} value={Math.round(cogWindow.longitudinal * 100)} onChange={e => setCogWindow(w => ({ ...w, longitudinal: Math.max(0, parseFloat(e.target.value) || 0) / 100 }))} className="w-12 bg-black border border-white/10 rounded-md px-2 py-1 font-mono text-white" />
+                <label className="text-gray-600 font-bold">{lang === 'zh' ? '横向' : 'Lat'}</label>
+                <input type="number" min={0} max={50} value={Math.round(cogWindow.lateral * 100)} onChange={e => setCogWindow(w => ({ ...w, lateral: Math.max(0, parseFloat(e.target.value) || 0) / 100 }))} className="w-12 bg-black border border-white/10 rounded-md px-2 py-1 font-mono text-white" />
+              </div>
+              <div className="flex items-center gap-2 text-[10px] pb-2 border-b border-white/5">
+                <span className="flex-1 font-black text-gray-300">{lang === 'zh' ? '时间预算 (秒)' : 'Time Budget (s)'}</span>
+                <input type="number" min={1} value={timeBudgetSec} onChange={e => setTimeBudgetSec(Math.max(1, parseInt(e.target.value) || 1))} className="w-16 bg-black border border-white/10 rounded-md px-2 py-1 font-mono text-white" />
+              </div>
+              <div className="flex items-center gap-2 text-[10px] pb-2 border-b border-white/5">
+                <span className="flex-1 font-black text-gray-300">{lang === 'zh' ? '搜索迭代次数' : 'Search Iterations'}</span>
+                <input type="number" min={0} value={searchIterations} onChange={e => setSearchIterations(Math.max(0, parseInt(e.target.value) || 0))} className="w-16 bg-black border border-white/10 rounded-md px-2 py-1 font-mono text-white" />
+              </div>
+              <div className="flex items-center gap-2 text-[10px] pb-2 border-b border-white/5">
+                <span className="flex-1 font-black text-gray-300">{t.keepPlans}</span>
+                <input type="number" min={1} max={10} value={alternativePlans} onChange={e => setAlternativePlans(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))} className="w-16 bg-black border border-white/10 rounded-md px-2 py-1 font-mono text-white" />
+              </div>
+              <div className="flex items-center gap-2 text-[10px] pb-2 border-b border-white/5">
+                <span className="flex-1 font-black text-gray-300">{lang === 'zh' ? '随机种子' : 'Seed'}</span>
+                <input type="text" inputMode="numeric" placeholder={lang === 'zh' ? '随机' : 'random'} value={seedInput} onChange={e => setSeedInput(e.target.value.replace(/[^0-9]/g, ''))} className="w-24 bg-black border border-white/10 rounded-md px-2 py-1 font-mono text-white" />
+                {planSeed !== null && (
+                  <button onClick={() => setSeedInput(String(planSeed))} title={lang === 'zh' ? '使用当前方案的种子' : 'Reuse the current plan seed'} className="font-mono text-blue-400 hover:text-blue-300">
+                    #{planSeed}
+                  </button>
+                )}
+              </div>
+              {fleet.map((entry, idx) => (
+                <div key={entry.container.name} className="flex items-center gap-2 text-[10px]">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-black text-gray-300 truncate">{entry.container.name}</p>
+                    <p className="font-mono text-gray-600">{entry.container.length}x{entry.container.width}x{entry.container.height}</p>
+                    {(entry.container.obstacles?.length || entry.container.door || entry.container.allowance) && (
+                      <p className="font-mono text-amber-500/80">
+                        {[
+                          entry.container.obstacles?.length ? `${entry.container.obstacles.length} ${lang === 'zh' ? '障碍物' : 'obstacles'}` : '',
+                          entry.container.door ? `${lang === 'zh' ? '门' : 'door'} ${entry.container.door.width}x${entry.container.door.height}` : '',
+                          entry.container.allowance?.top ? `+${entry.container.allowance.top} ${lang === 'zh' ? '超高' : 'top'}` : '',
+                          entry.container.allowance?.side ? `+${entry.container.allowance.side} ${lang === 'zh' ? '超宽' : 'side'}` : '',
+                          entry.container.allowance?.end ? `+${entry.container.allowance.end} ${lang === 'zh' ? '超长' : 'end'}` : ''
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                  </div>
+                  <label className="text-gray-600 font-bold">{lang === 'zh' ? '数量' : 'Qty'}</label>
+                  <input type="number" min={0} value={entry.count} onChange={e => updateFleetEntry(idx, { count: Math.max(0, parseInt(e.target.value) || 0) })} className="w-12 bg-black border border-white/10 rounded-md px-2 py-1 font-mono text-white" />
+                  <label className="text-gray-600 font-bold">{lang === 'zh' ? '成本' : 'Cost'}</label>
+                  <input type="number" min={0} step={0.1} value={entry.container.cost ?? 1} onChange={e => updateFleetEntry(idx, { cost: Math.max(0, parseFloat(e.target.value) || 0) })} className="w-14 bg-black border border-white/10 rounded-md px-2 py-1 font-mono text-white" />
+                </div>
+              ))}
+            </div>
+            {isSolving ? (
+              <div className="bg-[#111] rounded-[1.5rem] border border-blue-500/30 p-5 space-y-3">
+                <div className="flex justify-between items-center text-[10px] font-black uppercase tracking-widest">
+                  <span className="text-blue-400">{lang === 'zh' ? '求解中…' : 'Solving…'}</span>
+                  <span className="font-mono text-gray-500">{solverProgress ? (solverProgress.elapsedMs / 1000).toFixed(1) : '0.0'}s / {timeBudgetSec}s</span>
+                </div>
+                <div className="h-2 bg-black/40 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-600 transition-all" style={{ width: `${solverProgress ? (solverProgress.trial / Math.max(1, solverProgress.totalTrials)) * 100 : 0}%` }} />
+                </div>
+                {solverProgress && (
+                  <p className="font-mono text-[10px] text-gray-400">
+                    {lang === 'zh' ? '集装箱' : 'Container'} {solverProgress.containerIndex + 1} · {lang === 'zh' ? '试验' : 'Trial'} {solverProgress.trial}/{solverProgress.totalTrials} · {lang === 'zh' ? '最佳' : 'Best'} {solverProgress.bestUtil.toFixed(1)}%
+                  </p>
+                )}
+                <button onClick={cancelSolver} className="w-full py-3 btn-reset text-[11px] font-black uppercase tracking-widest">
+                  ⏹ {lang === 'zh' ? '停止并采用当前最佳' : 'Cancel & Keep Best'}
+                </button>
+              </div>
+            ) : (
+              <button 
+                  onClick={runAutoPlanner}
+                  className="w-full py-5 btn-solve text-sm font-black flex items-center justify-center gap-3 uppercase tracking-widest"
+               >
+                 🚀 {lang === 'zh' ? '执行自动排布' : 'Run Auto-Planner'}
+              </button>
+            )}
+            {solverError && !isSolving && (
+              <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-3 space-y-1 text-[10px]">
+                <p className="font-black text-red-400 uppercase tracking-widest">{lang === 'zh' ? '求解失败' : 'Solver Failed'}</p>
+                <p className="font-mono text-gray-400 break-words">{solverError}</p>
+                <p className="text-gray-500">{lang === 'zh' ? '已保留目前为止的最佳方案（如有），其余保持不变。' : 'The best plan found so far (if any) was kept; nothing else changed.'}</p>
+              </div>
+            )}
             <div className="grid grid-cols-2 gap-3">
-                <button onClick={() => setItems(arrangeStaging(createCargoGroups(DEMO_MANIFEST), container))} className="py-4 btn-reset text-[11px] font-black flex items-center justify-center gap-2 uppercase tracking-tighter">
+                <button onClick={() => { runCommand('RESET', { items: arrangeStaging(createCargoGroups(DEMO_MANIFEST), container), manifest: DEMO_MANIFEST }); clearPlanChoices(); }} className="py-4 btn-reset text-[11px] font-black flex items-center justify-center gap-2 uppercase tracking-tighter">
                    <span className="text-lg">🔄</span> {lang === 'zh' ? '重置场景' : 'Reset Scene'}
                 </button>
                 <button onClick={exportStandardPDF} className="py-4 btn-pdf text-[11px] font-black flex items-center justify-center gap-2 uppercase tracking-tighter">
                    <span className="text-lg">📄</span> {lang === 'zh' ? '导出 PDF' : 'Export PDF'}
                 </button>
+                <button onClick={exportLoadingInstructions} className="col-span-2 py-3 btn-pdf text-[11px] font-black flex items-center justify-center gap-2 uppercase tracking-tighter">
+                   <span className="text-lg">📋</span> {lang === 'zh' ? '导出装载说明' : 'Loading Instructions'}
+                </button>
+                <button onClick={exportExcel} className="col-span-2 py-3 btn-pdf text-[11px] font-black flex items-center justify-center gap-2 uppercase tracking-tighter">
+                   <span className="text-lg">📊</span> {lang === 'zh' ? '导出 Excel' : 'Export Excel'}
+                </button>
+            </div>
+          </section>
+
+          {/* Plan Comparison Section */}
+          {planChoices.length > 1 && (
+            <section className="space-y-4">
+              <h3 className="label-micro text-[10px] text-gray-500 mb-4">{t.planComparison}</h3>
+              <div className="bg-[#111] rounded-[1.5rem] border border-white/5 overflow-hidden">
+                <table className="w-full text-[10px] font-mono">
+                  <thead>
+                    <tr className="text-gray-600 uppercase tracking-widest">
+                      <th className="px-3 py-2 text-left">#</th>
+                      <th className="px-1 py-2 text-right">{t.planMetrics.util}</th>
+                      <th className="px-1 py-2 text-right">{t.planMetrics.count}</th>
+                      <th className="px-1 py-2 text-right">{t.planMetrics.weight}</th>
+                      <th className="px-1 py-2 text-right">{t.planMetrics.cog}</th>
+                      <th className="px-1 py-2 text-right">{t.planMetrics.rotated}</th>
+                      <th className="px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {planSummaries.map((summary, idx) => (
+                      <tr
+                        key={idx}
+                        onClick={() => previewPlanChoice(idx)}
+                        className={`border-t border-white/5 cursor-pointer hover:bg-white/5 ${previewPlan === idx ? 'bg-amber-500/10' : adoptedPlan === idx ? 'bg-blue-600/10' : ''}`}
+                      >
+                        <td className={`px-3 py-2 font-black ${adoptedPlan === idx ? 'text-blue-400' : 'text-gray-400'}`}>{idx + 1}{summary.containerCount > 1 ? ` ·${summary.containerCount}` : ''}</td>
+                        <td className="px-1 py-2 text-right text-white">{summary.util.toFixed(1)}%</td>
+                        <td className="px-1 py-2 text-right text-gray-300">{summary.packedCount}</td>
+                        <td className="px-1 py-2 text-right text-gray-300">{(summary.totalWeight / 1000).toFixed(1)}T</td>
+                        <td className={`px-1 py-2 text-right ${summary.cogStatus === 'OK' ? 'text-gray-300' : 'text-red-400'}`}>
+                          {(summary.cogOffset.x * 100).toFixed(0)}/{(summary.cogOffset.z * 100).toFixed(0)}%
+                        </td>
+                        <td className="px-1 py-2 text-right text-gray-300">{summary.rotatedCount}</td>
+                        <td className="px-3 py-2 text-right">
+                          {adoptedPlan === idx ? (
+                            <span className="text-blue-400 font-black">✓</span>
+                          ) : (
+                            <button onClick={e => { e.stopPropagation(); adoptPlanChoice(idx); }} className="text-emerald-400 font-black hover:text-emerald-300">{t.adoptPlan}</button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">{t.planComparisonHint}</p>
+            </section>
+          )}
+
+          {/* History Section */}
+          <section className="space-y-4">
+            <h3 className="label-micro text-[10px] text-gray-500 mb-4">{t.history}</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={() => travelHistory(undo(history))}
+                disabled={history.past.length === 0 || isSolving || !!preview}
+                className="py-3 btn-reset text-[10px] font-black uppercase tracking-widest disabled:opacity-30"
+              >
+                ↶ {t.undo}
+              </button>
+              <button
+                onClick={() => travelHistory(redo(history))}
+                disabled={history.future.length === 0 || isSolving || !!preview}
+                className="py-3 btn-reset text-[10px] font-black uppercase tracking-widest disabled:opacity-30"
+              >
+                ↷ {t.redo}
+              </button>
+            </div>
+            {history.past.length + history.future.length > 0 ? (
+              <div className="bg-[#111] rounded-[1.5rem] border border-white/5 p-2 max-h-64 overflow-y-auto custom-scrollbar">
+                {/* 最新的在上；已撤销的命令显示为灰色，点击任一步可直接跳转 */}
+                {[...history.past, ...history.future].map((command, idx) => ({ command, position: idx + 1 })).reverse().map(({ command, position }) => (
+                  <button
+                    key={`${position}-${command.at}`}
+                    onClick={() => travelHistory(travelTo(history, position))}
+                    disabled={isSolving || !!preview}
+                    className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg text-left text-[10px] transition-all hover:bg-white/5 ${
+                      position === history.past.length ? 'bg-blue-600/20 text-white' : position > history.past.length ? 'text-gray-600 line-through' : 'text-gray-300'
+                    }`}
+                  >
+                    <span className="font-black truncate">{t.commands[command.kind]}{command.detail ? ` · ${command.detail}` : ''}</span>
+                    <span className="font-mono text-gray-500 shrink-0">{new Date(command.at).toLocaleTimeString()}</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">{t.historyHint}</p>
+            )}
+          </section>
+
+          {/* Void Analysis Section */}
+          <section className="space-y-4">
+            <h3 className="label-micro text-[10px] text-gray-500 mb-4">{t.voidAnalysis}</h3>
+            <div className="bg-[#111] rounded-[1.5rem] border border-white/5 p-4 space-y-3">
+              <button
+                onClick={() => setShowVoids(!showVoids)}
+                className={`w-full p-3 viewport-btn flex items-center justify-between gap-4 text-[10px] font-black transition-all ${showVoids ? 'border-sky-600/50 text-sky-400' : 'text-gray-400'}`}
+              >
+                <span className="tracking-widest uppercase font-black">{t.showVoids}</span>
+                <span className="text-lg">{showVoids ? '◼' : '◻'}</span>
+              </button>
+              {([['gapThreshold', t.gapThreshold], ['airbagMaxGap', t.airbagMaxGap]] as const).map(([key, label]) => (
+                <div key={key} className="flex items-center gap-2 text-[10px]">
+                  <span className="flex-1 font-black text-gray-300">{label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={50}
+                    value={securingOptions[key]}
+                    onChange={e => setSecuringOptions({ ...securingOptions, [key]: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-16 bg-black border border-white/10 rounded-md px-2 py-1 font-mono text-white"
+                  />
+                </div>
+              ))}
+              {voidAnalysis && (
+                <div className="pt-2 border-t border-white/5 space-y-2 text-[10px]">
+                  <div className="flex justify-between font-black">
+                    <span className="text-gray-500 uppercase tracking-widest">{t.voidVolume}</span>
+                    <span className="font-mono text-white">{(voidAnalysis.voidVolume / 1e9).toFixed(2)} m³</span>
+                  </div>
+                  {voidAnalysis.materials.length === 0 ? (
+                    <div className="text-emerald-400 font-black uppercase tracking-widest">{t.noSecuringNeeded}</div>
+                  ) : voidAnalysis.materials.map(m => (
+                    <div key={m.kind} className="flex justify-between font-black">
+                      <span className={m.kind === 'LASHING' ? 'text-red-400' : m.kind === 'AIRBAG' ? 'text-sky-400' : 'text-amber-400'}>{t.securing[m.kind]}</span>
+                      <span className="font-mono text-white">{m.quantity} {t.securingUnits[m.unit]}</span>
+                    </div>
+                  ))}
+                  {voidAnalysis.lashingRows.length > 0 && (
+                    <div className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">{t.lashingRows}: {voidAnalysis.lashingRows.length}</div>
+                  )}
+                </div>
+              )}
             </div>
           </section>
 
@@ -300,18 +1341,90 @@ const App: React.FC = () => {
                 <span className="tracking-widest uppercase font-black">{isCameraLocked ? (lang === 'zh' ? '视角：锁定中' : 'Camera: Locked') : (lang === 'zh' ? '视角：自由查看' : 'Camera: Free Look')}</span>
                 <span className="text-xl">{isCameraLocked ? '🔒' : '🔓'}</span>
              </button>
+             <button 
+                onClick={() => setColorMode(colorMode === 'DRAWING' ? 'STOP' : 'DRAWING')} 
+                className={`w-full p-5 viewport-btn flex items-center justify-between gap-4 text-[11px] font-black transition-all ${colorMode === 'STOP' ? 'border-blue-600/50 text-blue-400' : 'text-gray-400'}`}
+             >
+                <span className="tracking-widest uppercase font-black">{t.colorModes[colorMode]}</span>
+                <span className="text-xl">🎨</span>
+             </button>
+          </section>
+
+          {/* Project Section */}
+          <section className="space-y-4">
+            <h3 className="label-micro text-[10px] text-gray-500 mb-4">{t.project}</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <button onClick={saveProject} className="py-4 btn-reset text-[11px] font-black flex items-center justify-center gap-2 uppercase tracking-tighter">
+                <span className="text-lg">💾</span> {t.saveProject}
+              </button>
+              <button onClick={() => projectInputRef.current?.click()} className="py-4 btn-reset text-[11px] font-black flex items-center justify-center gap-2 uppercase tracking-tighter">
+                <span className="text-lg">📂</span> {t.openProject}
+              </button>
+              <input type="file" accept=".json" ref={projectInputRef} onChange={handleProjectOpen} className="hidden" />
+            </div>
+            <p className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">
+              {autosaveFailed ? <span className="text-red-400">{t.autosaveFailed}</span> : lastAutosave ? `${t.autosaved} ${lastAutosave.toLocaleTimeString()}` : t.autosaveHint}
+            </p>
           </section>
 
           {/* Manifest Import Section */}
           <section className="space-y-4">
              <h3 className="label-micro text-[10px] text-gray-500 mb-4">{lang === 'zh' ? '清单导入管理' : 'Manifest Import'}</h3>
              <div className="relative group overflow-hidden rounded-[1.5rem] bg-blue-500/5 border border-dashed border-white/10 hover:border-blue-500/50 transition-all cursor-pointer">
-              <input type="file" accept=".csv" ref={fileInputRef} onChange={handleFileUpload} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" />
+              <input type="file" accept=".csv,.tsv,.txt,.xlsx,.xls" ref={fileInputRef} onChange={handleFileUpload} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" />
               <div className="p-8 text-center">
                 <div className="text-3xl mb-3">📦</div>
-                <div className="text-[11px] font-black text-blue-400 uppercase tracking-[0.2em]">{lang === 'zh' ? '上传装箱单 CSV' : 'Upload Manifest CSV'}</div>
-                <div className="text-[9px] text-gray-600 italic mt-2 font-bold uppercase tracking-widest opacity-60">{lang === 'zh' ? '仅限标准 CSV 格式' : 'Standard CSV Only'}</div>
+                <div className="text-[11px] font-black text-blue-400 uppercase tracking-[0.2em]">{lang === 'zh' ? '上传装箱单 CSV / Excel' : 'Upload Manifest CSV / Excel'}</div>
+                <div className="text-[9px] text-gray-600 italic mt-2 font-bold uppercase tracking-widest opacity-60">{lang === 'zh' ? '支持 CSV、分号分隔及 .xlsx' : 'CSV, semicolon-separated or .xlsx'}</div>
+              </div>
+            </div>
+          </section>
+
+          {/* Palletization Section */}
+          <section className="space-y-4">
+            <h3 className="label-micro text-[10px] text-gray-500 mb-4">{t.palletization}</h3>
+            <div className="bg-[#111] rounded-[1.5rem] border border-white/5 p-4 space-y-3">
+              <div className="flex items-center gap-2 text-[10px] pb-2 border-b border-white/5">
+                <span className="flex-1 font-black text-gray-300">{t.palletTemplate}</span>
+                <select
+                  value={palletTemplates.findIndex(p => p.name === palletTemplate.name)}
+                  onChange={e => setPalletTemplateName(palletTemplates[parseInt(e.target.value)].name)}
+                  className="bg-black border border-white/10 rounded-md px-2 py-1 font-bold text-white"
+                >
+                  {palletTemplates.map((p, idx) => (
+                    <option key={p.name} value={idx}>{p.name}</option>
+                  ))}
+                </select>
               </div>
+              <div className="grid grid-cols-2 gap-2 text-[10px]">
+                {([
+                  ['length', lang === 'zh' ? '长' : 'L'],
+                  ['width', lang === 'zh' ? '宽' : 'W'],
+                  ['maxHeight', t.palletMaxHeight],
+                  ['maxWeight', t.palletMaxWeight]
+                ] as [keyof PalletTemplate, string][]).map(([key, label]) => (
+                  <label key={key} className="flex items-center gap-2">
+                    <span className="flex-1 text-gray-600 font-bold">{label}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={palletTemplate[key] as number}
+                      // 只有自定义托盘可以修改长宽
+                      disabled={(key === 'length' || key === 'width') && palletTemplate.name !== 'Custom'}
+                      onChange={e => setPalletTemplate({ ...palletTemplate, [key]: Math.max(1, parseFloat(e.target.value) || 1) })}
+                      className="w-16 bg-black border border-white/10 rounded-md px-2 py-1 font-mono text-white disabled:text-gray-600"
+                    />
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={palletizeSelected}
+                disabled={!selectedItems.some(i => !i.isGroup)}
+                className="w-full py-3 btn-reset text-[10px] font-black uppercase tracking-widest disabled:opacity-30"
+              >
+                {t.palletizeSelected}
+              </button>
+              <p className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">{t.palletizeHint}</p>
             </div>
           </section>
 
@@ -321,21 +1434,99 @@ const App: React.FC = () => {
                 <span>{lang === 'zh' ? '货物详细列表' : 'Cargo Outliner'}</span>
                 <span className="text-blue-500 font-mono text-[11px] font-bold">{items.length} {lang === 'zh' ? '件货物' : 'Units'}</span>
              </h3>
+             {selectedItems.length > 0 ? (
+               <div className="flex gap-3">
+                 <button onClick={rotateSelected} title={t.rotateHint} className="flex-1 py-3 btn-reset text-[10px] font-black uppercase tracking-widest">
+                   ⟳ {t.rotate90}
+                 </button>
+                 {canCombine && (
+                   <button onClick={combineSelected} className="flex-1 py-3 btn-reset text-[10px] font-black uppercase tracking-widest">
+                     {t.combineSelected} ({selectedItems.length})
+                   </button>
+                 )}
+                 {selectedGroup && (
+                   <button onClick={splitSelectedGroup} className="flex-1 py-3 btn-reset text-[10px] font-black uppercase tracking-widest">
+                     {t.splitGroup}
+                   </button>
+                 )}
+               </div>
+             ) : (
+               <p className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">{t.multiSelectHint}</p>
+             )}
              <div className="bg-[#111] rounded-[1.5rem] border border-white/5 overflow-hidden">
                 <div className="max-h-[500px] overflow-y-auto custom-scrollbar">
                    {items.map(item => (
                      <div 
                        key={item.id}
-                       onClick={() => setItems(prev => prev.map(i => ({...i, selected: i.id === item.id})))}
+                       onClick={e => {
+                         const additive = e.ctrlKey || e.metaKey;
+                         if (item.containerId && !additive) switchContainer(item.containerId);
+                         selectItem(item.id, additive);
+                       }}
                        className={`px-6 py-4 border-b border-white/5 cursor-pointer hover:bg-white/5 flex items-center justify-between transition-colors ${item.selected ? 'bg-blue-600/10' : ''}`}
                      >
                         <div className="min-w-0">
-                           <p className={`text-[11px] font-black truncate uppercase tracking-tight ${item.selected ? 'text-blue-400' : 'text-gray-400'}`}>{item.subDrawingNo || item.drawingNo}</p>
+                           <p className={`text-[11px] font-black truncate uppercase tracking-tight ${item.selected ? 'text-blue-400' : !item.isValid ? 'text-red-400' : 'text-gray-400'}`}>{item.subDrawingNo || item.drawingNo}</p>
                            <p className="text-[9px] text-gray-600 font-mono mt-1.5 italic font-bold">
                              {item.dimensions.length}x{item.dimensions.width}x{item.dimensions.height} | {item.weight}kg
                            </p>
+                           {item.isGroup && item.subItems && (
+                             <p className="text-[9px] text-cyan-400 font-bold mt-1 uppercase tracking-widest">
+                               {item.pallet ? `${t.pallet} · ${getPalletContents(item).length}` : `KIT · ${item.subItems.length}`} {t.kitParts}
+                             </p>
+                           )}
+                           {item.stop !== undefined && (
+                             <p className="text-[9px] font-bold mt-1 uppercase tracking-widest" style={{ color: getStopColor(item.stop) }}>{t.stopLabel} {item.stop}</p>
+                           )}
+                           {(item.mandatory || item.priority !== undefined || item.value !== undefined) && (
+                             <p className="text-[9px] text-rose-300 font-bold mt-1 uppercase tracking-widest">
+                               {[
+                                 item.mandatory ? t.mandatory : '',
+                                 item.priority !== undefined ? `${t.priorityLabel} ${item.priority}` : '',
+                                 item.value !== undefined ? `${t.valueLabel} ${item.value}` : ''
+                               ].filter(Boolean).join(' · ')}
+                             </p>
+                           )}
+                           {item.shape && item.shape !== 'BOX' && (
+                             <p className="text-[9px] text-sky-400 font-bold mt-1 uppercase tracking-widest">{t.shapes[item.shape]}</p>
+                           )}
+                           {item.orientationRule && item.orientationRule !== 'ANY' && (
+                             <p className="text-[9px] text-yellow-500 font-bold mt-1 uppercase tracking-widest">{t.orientationRules[item.orientationRule]}</p>
+                           )}
+                           {(item.nonStackable || item.topOnly || item.maxStackLoad !== undefined) && (
+                             <p className="text-[9px] text-purple-400 font-bold mt-1 uppercase tracking-widest">
+                               {item.topOnly ? t.stackRules.topOnly : item.nonStackable ? t.stackRules.nonStackable : `${t.stackRules.maxStackLoad} ${item.maxStackLoad}kg`}
+                             </p>
+                           )}
+                           {item.issues && item.issues.map(issue => (
+                             <p key={issue} className="text-[9px] text-red-400 font-bold mt-1 uppercase tracking-widest">⚠ {t.issues[issue]}</p>
+                           ))}
+                           {item.stagingReason && (
+                             <p className="text-[9px] text-orange-400 font-bold mt-1 uppercase tracking-widest">{t.stagingReasons[item.stagingReason]}</p>
+                           )}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {item.pallet && (
+                            <button
+                              onClick={e => { e.stopPropagation(); toggleExpanded(item.id); }}
+                              title={item.expanded ? t.collapsePallet : t.expandPallet}
+                              className={`text-[11px] leading-none transition-opacity ${item.expanded ? 'opacity-100' : 'opacity-40 hover:opacity-80'}`}
+                            >
+                              {item.expanded ? '▾' : '▸'}
+                            </button>
+                          )}
+                          <button
+                            onClick={e => { e.stopPropagation(); togglePin(item.id); }}
+                            title={item.pinned ? t.unpin : t.pin}
+                            className={`text-[11px] leading-none transition-opacity ${item.pinned ? 'opacity-100' : 'opacity-20 hover:opacity-60'}`}
+                          >
+                            🔒
+                          </button>
+                          {item.containerId && containers.length > 1 && (
+                            <span className="text-[9px] font-mono font-bold text-gray-500">{item.containerId}</span>
+                          )}
+                          <div className={`w-2.5 h-2.5 rounded-full ${!item.isValid ? 'bg-red-500 shadow-[0_0_10px_#ef4444]' : item.containerId ? 'bg-emerald-500 shadow-[0_0_10px_#10b981]' : 'bg-orange-400 shadow-[0_0_10px_#fb923c]'}`} />
                         </div>
-                        <div className={`w-2.5 h-2.5 rounded-full ${item.position[1] >= 0 && item.position[0] < container.length ? 'bg-emerald-500 shadow-[0_0_10px_#10b981]' : 'bg-red-500 shadow-[0_0_10px_#ef4444]'}`} />
                      </div>
                    ))}
                 </div>
@@ -348,6 +1539,135 @@ const App: React.FC = () => {
            <p className="text-[10px] text-gray-800 font-black tracking-[0.5em] italic uppercase leading-none">{lang === 'zh' ? '引擎版本 v2.9 稳定版' : 'Engine precision v2.9 stable'}</p>
         </footer>
       </aside>
+
+      {/* Import Preview Modal */}
+      {importDraft && importPreview && (
+        <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-10">
+          <div className="glass-panel rounded-[2rem] w-full max-w-6xl max-h-full flex flex-col overflow-hidden shadow-2xl">
+            <div className="p-6 border-b border-white/5 flex items-center justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-black text-white tracking-tight">{t.importPreview}</h2>
+                <div className="text-[10px] text-gray-500 font-mono mt-1">{importDraft.fileName}</div>
+              </div>
+              {importDraft.workbook && importDraft.workbook.sheetNames.length > 1 && (
+                <label className="flex items-center gap-2 text-[10px] font-black text-gray-300 uppercase tracking-widest ml-auto">
+                  {t.sheet}
+                  <select
+                    value={importDraft.sheet}
+                    onChange={e => selectImportSheet(e.target.value)}
+                    className="bg-black border border-white/10 rounded-md px-2 py-1 font-bold text-white normal-case"
+                  >
+                    {importDraft.workbook.sheetNames.map(name => (
+                      <option key={name} value={name}>{name} ({importDraft.workbook!.tables[name].length})</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center gap-2 text-[10px] font-black text-gray-300 uppercase tracking-widest cursor-pointer">
+                <input type="checkbox" checked={importDraft.hasHeader} onChange={e => setImportDraft({ ...importDraft, hasHeader: e.target.checked })} />
+                {t.firstRowHeader}
+              </label>
+            </div>
+
+            {importDraft.readError ? (
+              <div className="flex-1 p-6 space-y-2">
+                <p className="text-sm font-bold text-red-400">✕ {t.workbookReadFailed}</p>
+                <p className="text-[10px] font-mono text-gray-500 break-words">{importDraft.readError}</p>
+              </div>
+            ) : (
+              <>
+                {/* Column mapping */}
+                <div className="p-6 border-b border-white/5 grid grid-cols-6 gap-3">
+                  {IMPORT_FIELDS.map(field => (
+                    <div key={field} className="flex flex-col gap-1 text-[10px]">
+                      <span className={`font-black uppercase tracking-widest ${REQUIRED_FIELDS.includes(field) ? (importPreview.missingFields.includes(field) ? 'text-red-400' : 'text-gray-300') : 'text-gray-500'}`}>
+                        {t.importFields[field]}{REQUIRED_FIELDS.includes(field) ? ' *' : ''}
+                      </span>
+                      <select
+                        value={importDraft.mapping[field] ?? ''}
+                        onChange={e => setImportColumn(field, e.target.value === '' ? undefined : parseInt(e.target.value))}
+                        className="bg-black border border-white/10 rounded-md px-2 py-1 font-bold text-white"
+                      >
+                        <option value="">{t.notMapped}</option>
+                        {(importDraft.table[0] || []).map((header, col) => (
+                          <option key={col} value={col}>{importDraft.hasHeader && header ? header : `${t.column} ${col + 1}`}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Row preview */}
+                <div className="flex-1 overflow-auto">
+                  <table className="w-full text-[10px] font-mono">
+                    <thead className="sticky top-0 bg-[#161616]">
+                      <tr className="text-gray-600 uppercase tracking-widest">
+                        <th className="px-3 py-2 text-left">#</th>
+                        <th className="px-3 py-2 text-left">{t.importFields.mainDrawingNo}</th>
+                        <th className="px-3 py-2 text-left">{t.importFields.subDrawingNo}</th>
+                        <th className="px-3 py-2 text-right">L×W×H</th>
+                        <th className="px-3 py-2 text-right">{t.importFields.quantity}</th>
+                        <th className="px-3 py-2 text-right">{t.importFields.weight}</th>
+                        <th className="px-3 py-2 text-left">{t.importIssuesLabel}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {importPreview.results.slice(0, IMPORT_PREVIEW_LIMIT).map(result => {
+                        const col = (field: ImportField) => importDraft.mapping[field] === undefined ? '' : result.cells[importDraft.mapping[field]!] || '';
+                        return (
+                          <tr key={result.line} className={`border-t border-white/5 ${result.errors.length > 0 ? 'bg-red-500/10' : result.warnings.length > 0 ? 'bg-amber-500/5' : ''}`}>
+                            <td className="px-3 py-1.5 text-gray-500">{result.line}</td>
+                            <td className="px-3 py-1.5 text-white">{col('mainDrawingNo')}</td>
+                            <td className="px-3 py-1.5 text-gray-400">{col('subDrawingNo')}</td>
+                            <td className="px-3 py-1.5 text-right text-gray-300">{col('length')}×{col('width')}×{col('height')}</td>
+                            <td className="px-3 py-1.5 text-right text-gray-300">{col('quantity')}</td>
+                            <td className="px-3 py-1.5 text-right text-gray-300">{col('weight')}</td>
+                            <td className="px-3 py-1.5">
+                              {result.errors.map((issue, idx) => <div key={`e${idx}`} className="text-red-400 font-bold">✕ {describeIssue(issue)}</div>)}
+                              {result.warnings.map((issue, idx) => <div key={`w${idx}`} className="text-amber-400">⚠ {describeIssue(issue)}</div>)}
+                              {result.errors.length === 0 && result.warnings.length === 0 && <span className="text-emerald-500">✓</span>}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  {importPreview.results.length > IMPORT_PREVIEW_LIMIT && (
+                    <div className="p-3 text-center text-[10px] text-gray-600 font-bold uppercase tracking-widest">
+                      +{importPreview.results.length - IMPORT_PREVIEW_LIMIT} {t.moreRows}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            <div className="p-6 border-t border-white/5 flex items-center gap-4">
+              <div className="flex-1 flex gap-6 text-[10px] font-black uppercase tracking-widest">
+                {!importDraft.readError && (
+                  <>
+                    <span className="text-emerald-400">{t.importSummary.valid}: {importPreview.validRows.length}</span>
+                    <span className="text-red-400">{t.importSummary.errors}: {importPreview.errorCount}</span>
+                    <span className="text-amber-400">{t.importSummary.warnings}: {importPreview.warningCount}</span>
+                    {importPreview.missingFields.length > 0 ? (
+                      <span className="text-red-400">{t.missingRequired}: {importPreview.missingFields.map(f => t.importFields[f]).join(', ')}</span>
+                    ) : importPreview.validRows.length === 0 && (
+                      <span className="text-red-400">{t.alertNoData}</span>
+                    )}
+                  </>
+                )}
+              </div>
+              <button onClick={() => setImportDraft(null)} className="px-6 py-3 btn-reset text-[10px] font-black uppercase tracking-widest">{t.cancel}</button>
+              <button
+                onClick={confirmImport}
+                disabled={importPreview.validRows.length === 0}
+                className="px-6 py-3 btn-solve text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+              >
+                {t.importRows} ({importPreview.validRows.length})
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,30 +1,77 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { Html, Text } from '@react-three/drei';
 import * as THREE from 'three';
-import { CargoItem, Dimensions } from '../types';
-import { checkCollisionWithCoords, getSnappingPosition } from '../utils/packingAlgorithm';
+import { CargoItem, CargoShape, ContainerConfig, Dimensions, Orientation, SubItem } from '../types';
+import { checkCollisionWithCoords, checkStackingWithCoords, checkSupportWithCoords, computeStackAnalysis, getCylinderAxis, getOrientedSubItems, getSnappingPosition, getZoneWithCoords, StackAnalysis } from '../utils/packingAlgorithm';
+import { SpatialIndex } from '../utils/spatialIndex';
 import { translations, Language } from '../utils/i18n';
+import { CYLINDER_ROTATION } from '../constants/geometry';
+
+interface SolidProps {
+  dimensions: Dimensions;
+  shape?: CargoShape;
+  orientation?: Orientation;
+  color: string;
+  partColor?: string; // Own color of a group part, kept unless the item is recolored
+  outline?: boolean; // Draw its own edges; a lone box relies on the item's bounding frame
+}
+
+/**
+ * 单个货物实体：长方体或圆柱（圆柱半径取截面较小的一边）
+ */
+const Solid: React.FC<SolidProps> = ({ dimensions, shape, orientation, color, partColor, outline }) => {
+  const { length: l, width: w, height: h } = dimensions;
+  const axis = getCylinderAxis(shape, orientation);
+  const geometry = useMemo(() => {
+    if (!axis) return new THREE.BoxGeometry(l, h, w);
+    const radius = (axis === 'x' ? Math.min(h, w) : axis === 'y' ? Math.min(l, w) : Math.min(l, h)) / 2;
+    const length = axis === 'x' ? l : axis === 'y' ? h : w;
+    return new THREE.CylinderGeometry(radius, radius, length, 32);
+  }, [axis, l, w, h]);
+  // 几何体是手动创建的，R3F 不会自动释放：尺寸 / 形状变化或卸载时释放旧的
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  const rotation = axis ? CYLINDER_ROTATION[axis] : CYLINDER_ROTATION.y;
+  return (
+    <group rotation={rotation}>
+      <mesh castShadow receiveShadow geometry={geometry} userData={partColor ? { color: partColor } : {}}>
+        <meshStandardMaterial color={color} />
+      </mesh>
+      {(outline || axis) && (
+        <lineSegments>
+          <edgesGeometry args={[geometry, 30]} />
+          <lineBasicMaterial color="#000000" transparent opacity={0.25} />
+        </lineSegments>
+      )}
+    </group>
+  );
+};
 
 interface CargoBoxProps {
   item: CargoItem;
-  containerDims: Dimensions;
+  displayColor?: string; // Overrides item.color, e.g. when coloring by delivery stop
+  container: ContainerConfig;
   allItems: CargoItem[];
+  spatialIndex: SpatialIndex; // Index over allItems, used for snapping and collision while dragging
   showLabel?: boolean;
-  onSelect: (id: string) => void;
+  onSelect: (id: string, additive: boolean) => void;
   onUpdate: (id: string, newPos: [number, number, number]) => void;
+  onTogglePin: (id: string) => void;
   onDragChange: (isDragging: boolean) => void;
   lang: Language;
 }
 
 export const CargoBox: React.FC<CargoBoxProps> = ({ 
   item, 
-  containerDims, 
+  displayColor,
+  container, 
   allItems, 
+  spatialIndex,
   showLabel = false,
   onSelect, 
   onUpdate,
+  onTogglePin,
   onDragChange,
   lang
 }) => {
@@ -38,7 +85,32 @@ export const CargoBox: React.FC<CargoBoxProps> = ({
   
   const dragPlane = useRef(new THREE.Plane(new THREE.Vector3(0, 1, 0), 0)); 
   const dragOffset = useRef(new THREE.Vector3());
+  // 拖拽开始时计算一次其他物品的受力情况，避免每次移动都重新计算
+  const stackAnalysis = useRef<StackAnalysis | null>(null);
+  // 拖拽中的当前位置是否支撑不足（允许暂时悬空以便跨越其他物品，但给出警告）
+  const isUnsupported = useRef(false);
+  // 拖拽中的当前位置是否部分伸出集装箱（松手后会被标红）
+  const isOutOfBounds = useRef(false);
   
+  // 组合件按零件分别绘制（位置相对于包围盒中心）
+  const parts = useMemo(() => item.isGroup ? getOrientedSubItems(item) : [], [item.isGroup, item.subItems, item.orientation, item.dimensions]);
+  // 未展开的托盘只画托盘本身和一整块缠绕后的货物
+  const visibleParts = useMemo(() => {
+    if (!item.pallet || item.expanded) return parts;
+    const deck = parts.find(p => p.isPalletDeck);
+    if (!deck) return parts;
+    const loadY = deck.relativePosition[1] + deck.dimensions.height;
+    const load: SubItem = {
+      ...deck,
+      id: `${item.id}-load`,
+      isPalletDeck: false,
+      relativePosition: [0, loadY, 0],
+      dimensions: { length: item.dimensions.length, width: item.dimensions.width, height: item.dimensions.height - loadY },
+      color: item.color
+    };
+    return load.dimensions.height > 0 ? [deck, load] : [deck];
+  }, [parts, item.pallet, item.expanded, item.id, item.color, item.dimensions]);
+
   const centerX = item.position[0] + item.dimensions.length / 2;
   const centerY = item.position[1] + item.dimensions.height / 2;
   const centerZ = item.position[2] + item.dimensions.width / 2;
@@ -47,10 +119,16 @@ export const CargoBox: React.FC<CargoBoxProps> = ({
     if (groupRef.current) {
         groupRef.current.traverse((child) => {
             if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshStandardMaterial) {
-                const baseColor = isDragging ? '#fbbf24' : item.color;
+                const baseColor = isDragging ? '#fbbf24' : (displayColor || child.userData.color || item.color);
                 child.material.color.set(baseColor);
-                child.material.emissive.set(isHovered || item.selected ? '#ffffff' : '#000000');
-                child.material.emissiveIntensity = isHovered || item.selected ? 0.2 : 0;
+                if (!item.isValid && !isDragging) {
+                    // 校验未通过（如悬空）的物品以红色高亮
+                    child.material.emissive.set('#ef4444');
+                    child.material.emissiveIntensity = 0.6;
+                } else {
+                    child.material.emissive.set(isHovered || item.selected ? '#ffffff' : '#000000');
+                    child.material.emissiveIntensity = isHovered || item.selected ? 0.2 : 0;
+                }
                 child.material.roughness = 0.4;
                 child.material.metalness = 0.2;
             }
@@ -61,16 +139,23 @@ export const CargoBox: React.FC<CargoBoxProps> = ({
         const x = groupRef.current.position.x - item.dimensions.length / 2;
         const y = groupRef.current.position.y - item.dimensions.height / 2;
         const z = groupRef.current.position.z - item.dimensions.width / 2;
-        coordTextRef.current.text = `POS: ${Math.round(x)}, ${Math.round(y)}, ${Math.round(z)}`;
+        const warning = isOutOfBounds.current ? `  ⚠ ${t.issues.OUT_OF_BOUNDS}` : isUnsupported.current ? `  ⚠ ${t.issues.UNSUPPORTED}` : '';
+        coordTextRef.current.text = `POS: ${Math.round(x)}, ${Math.round(y)}, ${Math.round(z)}${warning}`;
     }
   });
 
   const handlePointerDown = (e: any) => {
     e.stopPropagation(); 
+    const additive = e.ctrlKey || e.metaKey;
+    onSelect(item.id, additive);
+    // 多选或锁定的物品只改变选中状态，不能拖动
+    if (additive || item.pinned) return;
     e.target.setPointerCapture(e.pointerId);
-    onSelect(item.id);
     setIsDragging(true);
     onDragChange(true); 
+    stackAnalysis.current = computeStackAnalysis(allItems.filter(i => i.id !== item.id), spatialIndex);
+    isUnsupported.current = false;
+    isOutOfBounds.current = false;
 
     if (groupRef.current) {
         dragOffset.current.copy(e.point).sub(groupRef.current.position);
@@ -118,16 +203,31 @@ export const CargoBox: React.FC<CargoBoxProps> = ({
         let candidateY = Math.round(rawCornerY / snap) * snap;
         let candidateZ = Math.round(rawCornerZ / snap) * snap;
 
+        const { length: l, height: h, width: w } = item.dimensions;
+        const snapThreshold = 150;
+        // 只取吸附半径内的物品参与吸附
+        const snapCandidates = spatialIndex.query({ x: candidateX, y: candidateY, z: candidateZ, l, h, w }, snapThreshold);
         const [snappedX, snappedY, snappedZ] = getSnappingPosition(
             [candidateX, candidateY, candidateZ], 
             item.dimensions, 
-            allItems, 
+            snapCandidates, 
             item.id,
-            150
+            snapThreshold
         );
 
+        // 下面要检查的位置都落在“当前位置 ~ 吸附后位置”的包围盒内，只取这一范围附近的物品
+        const minX = Math.min(snappedX, item.position[0]), minY = Math.min(snappedY, item.position[1]), minZ = Math.min(snappedZ, item.position[2]);
+        const nearby = spatialIndex.query({
+            x: minX, y: minY, z: minZ,
+            l: Math.max(snappedX, item.position[0]) + l - minX,
+            h: Math.max(snappedY, item.position[1]) + h - minY,
+            w: Math.max(snappedZ, item.position[2]) + w - minZ
+        }, 2);
+
         const checkValid = (x: number, y: number, z: number) => {
-            return !checkCollisionWithCoords({ x, y, z, l: item.dimensions.length, h: item.dimensions.height, w: item.dimensions.width, id: item.id }, allItems, containerDims);
+            const target = { x, y, z, l, h, w, id: item.id, axis: getCylinderAxis(item.shape, item.orientation) };
+            return !checkCollisionWithCoords(target, nearby, container)
+                && !checkStackingWithCoords(target, nearby, stackAnalysis.current || undefined);
         };
 
         let finalPos: [number, number, number] | null = checkValid(snappedX, snappedY, snappedZ) ? [snappedX, snappedY, snappedZ] : null;
@@ -138,6 +238,12 @@ export const CargoBox: React.FC<CargoBoxProps> = ({
         }
 
         if (finalPos && groupRef.current) {
+            isUnsupported.current = checkSupportWithCoords(
+                { x: finalPos[0], y: finalPos[1], z: finalPos[2], l, h, w, id: item.id },
+                nearby,
+                container
+            );
+            isOutOfBounds.current = getZoneWithCoords({ x: finalPos[0], y: finalPos[1], z: finalPos[2], l, h, w }, container) === 'OUT_OF_BOUNDS';
             groupRef.current.position.set(
                 finalPos[0] + item.dimensions.length / 2,
                 finalPos[1] + item.dimensions.height / 2,
@@ -163,7 +269,7 @@ export const CargoBox: React.FC<CargoBoxProps> = ({
     }
   };
   
-  const borderColor = item.selected ? "#ffffff" : "#000000";
+  const borderColor = item.selected ? "#ffffff" : !item.isValid ? "#ef4444" : item.pinned ? "#f59e0b" : "#000000";
   
   return (
     <group>
@@ -193,17 +299,28 @@ export const CargoBox: React.FC<CargoBoxProps> = ({
            onPointerDown={handlePointerDown}
            onPointerMove={handlePointerMove}
            onPointerUp={handlePointerUp}
+           onDoubleClick={(e: any) => { e.stopPropagation(); onTogglePin(item.id); }}
            onPointerOver={() => { document.body.style.cursor = 'grab'; setIsHovered(true); }}
            onPointerOut={() => { document.body.style.cursor = 'auto'; setIsHovered(false); }}
         >
-            <mesh castShadow receiveShadow>
-               <boxGeometry args={[item.dimensions.length, item.dimensions.height, item.dimensions.width]} />
-               <meshStandardMaterial color={item.color} />
-            </mesh>
+            {visibleParts.length > 0 ? visibleParts.map(part => (
+              <group
+                key={part.id}
+                position={[
+                  part.relativePosition[0] + (part.dimensions.length - item.dimensions.length) / 2,
+                  part.relativePosition[1] + (part.dimensions.height - item.dimensions.height) / 2,
+                  part.relativePosition[2] + (part.dimensions.width - item.dimensions.width) / 2
+                ]}
+              >
+                <Solid dimensions={part.dimensions} shape={part.shape} orientation={part.orientation} color={displayColor || part.color} partColor={part.color} outline />
+              </group>
+            )) : (
+              <Solid dimensions={item.dimensions} shape={item.shape} orientation={item.orientation} color={displayColor || item.color} />
+            )}
 
             <lineSegments>
                 <edgesGeometry args={[new THREE.BoxGeometry(item.dimensions.length, item.dimensions.height, item.dimensions.width)]} />
-                <lineBasicMaterial color={borderColor} linewidth={item.selected ? 2 : 1} transparent={!item.selected} opacity={item.selected ? 1 : 0.3} />
+                <lineBasicMaterial color={borderColor} linewidth={item.selected ? 2 : 1} transparent={!item.selected && item.isValid && !item.pinned} opacity={item.selected || !item.isValid || item.pinned ? 1 : 0.3} />
             </lineSegments>
 
             {isDragging && (
@@ -219,13 +336,22 @@ export const CargoBox: React.FC<CargoBoxProps> = ({
               <div className="bg-[#111] text-[#eee] p-5 rounded-[1.5rem] border border-blue-500/50 shadow-[0_25px_60px_rgba(0,0,0,0.8)] min-w-[240px] pointer-events-none select-none backdrop-blur-3xl">
                    <div className="text-[10px] uppercase font-black text-blue-400 mb-2 tracking-[0.3em]">{t.partDetail}</div>
                    <div className="font-black text-base mb-1 leading-none">{item.subDrawingNo || item.drawingNo}</div>
-                   <div className="text-[9px] text-gray-500 font-bold mb-4 tracking-widest opacity-60">{item.drawingNo}</div>
+                   <div className="text-[9px] text-gray-500 font-bold mb-4 tracking-widest opacity-60">{item.drawingNo}{item.stop !== undefined ? ` · ${t.stopLabel} ${item.stop}` : ''}{parts.length > 0 ? ` · ${item.pallet ? parts.length - 1 : parts.length} ${t.kitParts}` : ''}</div>
                    <div className="flex justify-between items-center text-[11px] font-mono bg-black/50 px-4 py-3 rounded-2xl border border-white/5">
                       <span className="text-gray-400">{item.dimensions.length}×{item.dimensions.width}×{item.dimensions.height}</span>
                       <span className="text-white font-black">{item.weight}kg</span>
                    </div>
+                   {item.issues && item.issues.map(issue => (
+                     <div key={issue} className="mt-3 text-[10px] text-red-400 font-black uppercase tracking-widest">⚠ {t.issues[issue]}</div>
+                   ))}
+                   {item.stagingReason && (
+                     <div className="mt-3 text-[10px] text-orange-400 font-black uppercase tracking-widest">{t.stagingReasons[item.stagingReason]}</div>
+                   )}
+                   {item.pinned && (
+                     <div className="mt-3 text-[10px] text-amber-400 font-black uppercase tracking-widest">🔒 {t.pinned}</div>
+                   )}
                    <div className="mt-4 text-[9px] text-gray-700 font-black uppercase tracking-widest text-center italic">
-                      Hold SHIFT to adjust lift height
+                      {item.pinned ? '' : 'Hold SHIFT to adjust lift height · '}{t.pinHint} · {t.multiSelectHint}
                    </div>
               </div>
             </Html>
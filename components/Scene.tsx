@@ -1,10 +1,55 @@
-import React from 'react';
+import React, { useLayoutEffect, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Grid, Environment, Text } from '@react-three/drei';
 import { ContainerConfig, CargoItem } from '../types';
 import { CargoBox } from './CargoBox';
 import * as THREE from 'three';
 import { translations, Language } from '../utils/i18n';
+import { getLoadingEnvelope, getStopColor, LashingRow, VoidSpace } from '../utils/packingAlgorithm';
+import { createSpatialIndex } from '../utils/spatialIndex';
+import { SCENE_CAMERA_FOV, SCENE_CAMERA_POSITION } from '../constants/geometry';
+
+// 货物着色方式：按图号 / 按卸货站点
+export type ColorMode = 'DRAWING' | 'STOP';
+
+// 空隙按处理方式着色；无需处理的空隙只画淡淡的轮廓
+const VOID_COLORS = { AIRBAG: '#38bdf8', DUNNAGE: '#f59e0b', NONE: '#9ca3af' };
+const LASHING_COLOR = '#ef4444';
+const STRAP_WIDTH = 50;
+
+// 空隙与绑扎带只用于展示，不参与射线拾取，避免挡住对货物的点击和拖拽
+const noRaycast = () => null;
+
+const SecuringOverlay: React.FC<{ voids: VoidSpace[], lashingRows: LashingRow[] }> = ({ voids, lashingRows }) => (
+  <group>
+    {voids.map((v, idx) => {
+      const color = VOID_COLORS[v.treatment || 'NONE'];
+      return (
+        <group key={idx} position={[v.x + v.l / 2, v.y + v.h / 2, v.z + v.w / 2]}>
+          <mesh raycast={noRaycast}>
+            <boxGeometry args={[v.l, v.h, v.w]} />
+            <meshBasicMaterial color={color} transparent opacity={v.treatment ? 0.25 : 0.06} depthWrite={false} />
+          </mesh>
+          <lineSegments raycast={noRaycast}>
+            <edgesGeometry args={[new THREE.BoxGeometry(v.l, v.h, v.w)]} />
+            <lineBasicMaterial color={color} transparent opacity={v.treatment ? 0.8 : 0.25} />
+          </lineSegments>
+        </group>
+      );
+    })}
+    {/* 绑扎带：沿货物排朝箱门的端面均匀分布 */}
+    {lashingRows.flatMap((row, rIdx) => Array.from({ length: row.straps }, (_, sIdx) => (
+      <mesh
+        key={`${rIdx}-${sIdx}`}
+        raycast={noRaycast}
+        position={[row.x + 10, row.y + row.h / 2, row.z + row.w * (sIdx + 1) / (row.straps + 1)]}
+      >
+        <boxGeometry args={[20, row.h, STRAP_WIDTH]} />
+        <meshBasicMaterial color={LASHING_COLOR} />
+      </mesh>
+    )))}
+  </group>
+);
 
 interface SceneProps {
   container: ContainerConfig;
@@ -13,9 +58,13 @@ interface SceneProps {
   cameraLocked?: boolean;
   isItemDragging: boolean;
   onItemDragStateChange: (isDragging: boolean) => void;
-  onSelectItem: (id: string) => void;
+  onSelectItem: (id: string, additive: boolean) => void; // additive: Ctrl / ⌘ toggles the item in a multi-selection
   onUpdateItem: (id: string, pos: [number, number, number]) => void;
+  onTogglePin: (id: string) => void;
   lang: Language;
+  colorMode?: ColorMode;
+  voids?: VoidSpace[];
+  lashingRows?: LashingRow[];
 }
 
 export const Scene: React.FC<SceneProps> = ({ 
@@ -27,13 +76,26 @@ export const Scene: React.FC<SceneProps> = ({
   onItemDragStateChange,
   onSelectItem, 
   onUpdateItem,
-  lang
+  onTogglePin,
+  lang,
+  colorMode = 'DRAWING',
+  voids = [],
+  lashingRows = []
 }) => {
   const t = translations[lang];
 
+  // 拖拽检测用的空间索引：在整个场景生命周期内复用，物品变化时只增量更新移动过的物品。
+  // 渲染阶段不修改它，提交后在 layout effect 中同步，拖拽事件总能看到最新的物品
+  const spatialIndex = useMemo(() => createSpatialIndex(), []);
+  useLayoutEffect(() => {
+    spatialIndex.sync(items);
+  }, [spatialIndex, items]);
+
   // Container wireframe points
   const { length: l, height: h, width: w } = container;
   
+  const envelope = getLoadingEnvelope(container);
+
   // Create a line geometry for the container
   const ContainerFrame = () => {
     return (
@@ -62,6 +124,36 @@ export const Scene: React.FC<SceneProps> = ({
            <meshBasicMaterial color="#9ca3af" transparent opacity={0.1} side={THREE.DoubleSide} />
         </mesh>
 
+        {/* Obstacles (wheel arches, reefer unit...) */}
+        {(container.obstacles || []).map((o, idx) => (
+          <group key={idx} position={[o.position[0] + o.dimensions.length / 2, o.position[1] + o.dimensions.height / 2, o.position[2] + o.dimensions.width / 2]}>
+            <mesh>
+              <boxGeometry args={[o.dimensions.length, o.dimensions.height, o.dimensions.width]} />
+              <meshStandardMaterial color="#4b5563" transparent opacity={0.6} />
+            </mesh>
+            <lineSegments>
+              <edgesGeometry args={[new THREE.BoxGeometry(o.dimensions.length, o.dimensions.height, o.dimensions.width)]} />
+              <lineBasicMaterial color="#f59e0b" />
+            </lineSegments>
+          </group>
+        ))}
+
+        {/* Door opening at x = length */}
+        {container.door && (
+          <lineSegments position={[l, container.door.height / 2, w / 2]} rotation={[0, Math.PI / 2, 0]}>
+            <edgesGeometry args={[new THREE.PlaneGeometry(container.door.width, container.door.height)]} />
+            <lineBasicMaterial color="#10b981" />
+          </lineSegments>
+        )}
+
+        {/* Overheight / overwidth / overlength allowance envelope */}
+        {(envelope.x !== 0 || envelope.z !== 0 || envelope.h !== h) && (
+          <lineSegments position={[envelope.x + envelope.l / 2, envelope.h / 2, envelope.z + envelope.w / 2]}>
+            <edgesGeometry args={[new THREE.BoxGeometry(envelope.l, envelope.h, envelope.w)]} />
+            <lineBasicMaterial color="#60a5fa" transparent opacity={0.4} />
+          </lineSegments>
+        )}
+
         {/* Labels for Container Sides */}
         <Text position={[l/2, -200, w + 200]} rotation={[-Math.PI/2, 0, 0]} fontSize={400} color="gray">
            {t.containerLabel}
@@ -73,7 +165,7 @@ export const Scene: React.FC<SceneProps> = ({
   return (
     <Canvas
       shadows
-      camera={{ position: [-4000, 4000, 8000], fov: 45, near: 10, far: 50000 }}
+      camera={{ position: SCENE_CAMERA_POSITION, fov: SCENE_CAMERA_FOV, near: 10, far: 50000 }}
       dpr={[1, 2]}
     >
       <color attach="background" args={['#1f2937']} />
@@ -84,16 +176,20 @@ export const Scene: React.FC<SceneProps> = ({
 
       <group position={[-l/2, 0, -w/2]}>
         <ContainerFrame />
+        <SecuringOverlay voids={voids} lashingRows={lashingRows} />
         
         {items.map(item => (
           <CargoBox 
             key={item.id} 
             item={item} 
-            containerDims={container}
+            displayColor={colorMode === 'STOP' ? getStopColor(item.stop) : undefined}
+            container={container}
             allItems={items}
+            spatialIndex={spatialIndex}
             showLabel={showLabels}
             onSelect={onSelectItem}
             onUpdate={onUpdateItem}
+            onTogglePin={onTogglePin}
             onDragChange={onItemDragStateChange}
             lang={lang}
           />
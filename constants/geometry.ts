@@ -0,0 +1,15 @@
+import { CylinderAxis } from '../utils/packingAlgorithm';
+
+// --- 场景几何常量 (Scene Geometry) ---
+// 3D 视图和离屏截图共用
+
+// 默认视角（相对箱底中心）；装载说明的截图沿用同一方向
+export const SCENE_CAMERA_POSITION: [number, number, number] = [-4000, 4000, 8000];
+export const SCENE_CAMERA_FOV = 45;
+
+// 圆柱默认沿 Y 轴，按轴向旋转到位
+export const CYLINDER_ROTATION: Record<CylinderAxis, [number, number, number]> = {
+  x: [0, 0, Math.PI / 2],
+  y: [0, 0, 0],
+  z: [Math.PI / 2, 0, 0]
+};
@@ -6,9 +6,102 @@ export interface Dimensions {
   height: number; // y axis in visual
 }
 
+// 摆放姿态：三个字母依次表示沿 X(长) / Z(宽) / Y(高) 方向的是货物原始的哪条边
+// 例如 'LWH' 为原始姿态，'WLH' 为水平旋转 90°，'LHW' 为侧放
+export type Orientation = 'LWH' | 'WLH' | 'LHW' | 'HLW' | 'WHL' | 'HWL';
+
+// 姿态约束：ANY = 可任意翻转（允许平放/侧放），UPRIGHT = 此面向上（只能水平旋转），FIXED = 禁止旋转
+export type OrientationRule = 'ANY' | 'UPRIGHT' | 'FIXED';
+
+// 箱内障碍物（轮拱、冷机、固定设备等）：货物不能占用这部分空间，但可以压在它的顶面上
+export interface ContainerObstacle {
+  name?: string;
+  position: [number, number, number]; // 起点坐标，相对集装箱原点
+  dimensions: Dimensions;
+}
+
+// 箱门净开口：门框通常比箱内尺寸小，货物要以装载姿态从 X = length 一端的箱门通过
+export interface DoorOpening {
+  width: number;
+  height: number;
+}
+
+// 允许货物伸出箱体的距离 (mm)：开顶箱 / 框架箱可以装超高、超宽、超长的货物
+export interface LoadAllowance {
+  top?: number;  // 高出箱顶
+  side?: number; // 每侧超宽
+  end?: number;  // 每端超长
+}
+
 export interface ContainerConfig extends Dimensions {
   name: string;
   maxWeight: number;
+  cost?: number; // Relative cost per container, used by fleet planning
+  obstacles?: ContainerObstacle[]; // Space inside the container that cargo cannot occupy
+  door?: DoorOpening; // Clear door opening; omitted = same as the interior cross-section
+  allowance?: LoadAllowance; // How far cargo may stick out (open-top / flat-rack)
+}
+
+// 可用箱型及数量（多柜规划的输入）
+export interface FleetEntry {
+  container: ContainerConfig;
+  count: number;
+}
+
+// 规划结果中实际使用的一个集装箱实例
+export interface PlannedContainer {
+  id: string;
+  config: ContainerConfig;
+}
+
+// 多柜规划目标：FEWEST = 用柜数量最少，CHEAPEST = 总成本最低
+export type FleetObjective = 'FEWEST' | 'CHEAPEST';
+
+// 允许的重心范围：相对集装箱中心的偏移量，按长 / 宽的比例表示（0.1 = ±10%）
+export interface CogWindow {
+  longitudinal: number; // along length (X)
+  lateral: number;      // across width (Z)
+}
+
+// 摆放策略：决定每件货物放在哪个候选位置
+// BOTTOM_LEFT = 靠下靠里优先，EXTREME_POINT = 极点法，BEST_FIT = 剩余体积最小，
+// WALL_BUILDING = 沿长度方向砌墙，LAYER_BUILDING = 逐层铺满
+export type PlacementPolicyId = 'BOTTOM_LEFT' | 'EXTREME_POINT' | 'BEST_FIT' | 'WALL_BUILDING' | 'LAYER_BUILDING';
+
+// 求解器设置（自动排布时由侧边栏传入）
+// Weights of the packing objective; every term is normalized to 0..1 before weighting
+export interface ObjectiveWeights {
+  volume: number; // Packed volume / usable container volume
+  weight: number; // Packed weight / total weight of the cargo
+  value: number; // Packed value / total value of the cargo
+  count: number; // Packed pieces / total pieces
+  priority: number; // Packed priority / total priority (items without a priority count as 1)
+}
+
+export interface SolverOptions {
+  fleetObjective?: FleetObjective;
+  placementPolicy?: PlacementPolicyId | 'RACE'; // RACE = run every policy and keep the best plan (default: BOTTOM_LEFT)
+  cogWindow?: CogWindow;
+  objective?: ObjectiveWeights; // Trial ranking, defaults to packed volume only
+  timeBudgetMs?: number; // Stop searching after this long and keep the best plan so far (0 = unlimited)
+  seed?: number; // PRNG seed for the search; the same seed reproduces the same plan
+  searchIterations?: number; // Simulated annealing iterations per container type
+  alternativePlans?: number; // Keep this many distinct plans (best first) for comparison, defaults to 1
+}
+
+// Cargo outline relative to the imported dimensions; solver and collision use the bounding box
+// CYLINDER_UPRIGHT: axis along H (diameter = L = W), e.g. drums
+// CYLINDER_LYING: axis along L (diameter = W = H), e.g. cable reels, coils
+export type CargoShape = 'BOX' | 'CYLINDER_UPRIGHT' | 'CYLINDER_LYING';
+
+export interface PalletTemplate {
+  name: string;
+  length: number;
+  width: number;
+  deckHeight: number; // Height of the empty pallet
+  maxHeight: number; // Max overall height including the deck
+  maxWeight: number; // Max load on the pallet (kg), excluding its tare weight
+  tareWeight: number;
 }
 
 export interface SubItem {
@@ -16,11 +109,33 @@ export interface SubItem {
   drawingNo: string;
   subDrawingNo: string;
   dimensions: Dimensions;
-  relativePosition: [number, number, number]; // Position relative to the group parent
+  relativePosition: [number, number, number]; // Position relative to the group parent, in the group's LWH frame
   color: string;
   weight: number;
+  orientation?: Orientation; // Pose of the part inside the group's LWH frame, defaults to 'LWH'
+  // Rules of the original item, restored when the group is split
+  orientationRule?: OrientationRule;
+  maxStackLoad?: number;
+  nonStackable?: boolean;
+  topOnly?: boolean;
+  stop?: number;
+  isPalletDeck?: boolean; // The pallet itself, not one of its cartons
+  shape?: CargoShape;
+  mandatory?: boolean;
+  priority?: number;
+  value?: number;
 }
 
+// 货物被退回待装区的原因（由自动排布引擎写入）
+export type StagingReason = 'NO_SPACE' | 'OVERWEIGHT' | 'TIMEOUT' | 'DOOR_CLEARANCE';
+
+// 方案校验发现的问题（isValid 为 false 时至少包含一项）
+export type PlanIssue = 'UNSUPPORTED' | 'BLOCKED' | 'OUT_OF_BOUNDS' | 'DOOR_CLEARANCE' | 'MANDATORY_UNLOADED';
+
+// 物品所在区域：CONTAINER = 完全在集装箱内，STAGING = 集装箱侧面的待装区，
+// OUT_OF_BOUNDS = 其他位置（包括部分伸出箱壁、箱顶或与箱内障碍物重叠的物品）
+export type ItemZone = 'CONTAINER' | 'STAGING' | 'OUT_OF_BOUNDS';
+
 export interface CargoItem {
   id: string;
   drawingNo: string; // Main Drawing No
@@ -31,8 +146,24 @@ export interface CargoItem {
   weight: number;
   selected: boolean;
   isValid: boolean; // False if colliding
-  subItems?: SubItem[]; // If present, this is a composite group (now mostly unused/optional)
+  subItems?: SubItem[]; // Parts of a composite group, packed and moved as one rigid unit
   isGroup?: boolean;
+  stagingReason?: StagingReason; // Why the auto-planner left this item in staging
+  orientationRule?: OrientationRule; // Allowed poses, defaults to 'ANY'
+  orientation?: Orientation; // Current pose relative to the imported dimensions, defaults to 'LWH'
+  maxStackLoad?: number; // Max weight (kg) this item can carry on top, unlimited if omitted
+  nonStackable?: boolean; // Nothing may be placed on top of this item
+  topOnly?: boolean; // Must be loaded on top of a stack (nothing above it)
+  issues?: PlanIssue[]; // Problems found by validatePlan
+  containerId?: string; // PlannedContainer this item is loaded into, undefined while in staging
+  pinned?: boolean; // Locked in place: cannot be dragged, and the auto-planner packs around it
+  stop?: number; // Delivery stop (1 = first to unload), nearer the door for earlier stops
+  shape?: CargoShape; // Defaults to 'BOX'
+  mandatory?: boolean; // Must ship: the planner loads it first and flags it as an error if it is left behind
+  priority?: number; // Higher loads earlier, defaults to 1
+  value?: number; // Cargo value used by the 'value' objective term
+  pallet?: string; // Pallet template name when this group is a loaded pallet
+  expanded?: boolean; // Scene shows the individual cartons of a pallet instead of its wrapped load
 }
 
 export interface ImportedRow {
@@ -43,6 +174,16 @@ export interface ImportedRow {
   height: number;
   quantity: number;
   weight: number;
+  orientation?: OrientationRule;
+  maxStackLoad?: number;
+  nonStackable?: boolean;
+  topOnly?: boolean;
+  stop?: number;
+  shape?: CargoShape;
+  mandatory?: boolean;
+  priority?: number;
+  value?: number;
+  kitQuantity?: number; // Rows with the same main drawing no. and a kit quantity are assembled into that many kits
 }
 
 // Augment the global JSX namespace to include the Three.js elements used by React Three Fiber
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { readWorkbookTables } from './excel';
+import { buildImportPreview, detectMapping } from './manifestImport';
+
+// 在内存中生成 .xlsx，与浏览器读取上传文件得到的 ArrayBuffer 相同
+const toWorkbookData = (sheets: Record<string, unknown[][]>): ArrayBuffer => {
+  const workbook = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([name, rows]) => XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name));
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+};
+
+describe('readWorkbookTables', () => {
+  it('reads every sheet as display text and drops empty rows', () => {
+    const data = toWorkbookData({
+      Manifest: [
+        ['Drawing', 'L', 'W', 'H', 'Qty', 'Weight'],
+        ['7.997.70.552.0', 1200, 800, 600, 2, 12.5],
+        [],
+        ['  B  ', 500, 400, 300, 1, 0]
+      ],
+      Notes: [['only notes']]
+    });
+    const { sheetNames, tables } = readWorkbookTables(data);
+    expect(sheetNames).toEqual(['Manifest', 'Notes']);
+    expect(tables.Manifest).toEqual([
+      ['Drawing', 'L', 'W', 'H', 'Qty', 'Weight'],
+      ['7.997.70.552.0', '1200', '800', '600', '2', '12.5'],
+      ['B', '500', '400', '300', '1', '0']
+    ]);
+    expect(tables.Notes).toEqual([['only notes']]);
+  });
+
+  it('feeds the same import preview as CSV', () => {
+    const { tables } = readWorkbookTables(toWorkbookData({
+      Sheet1: [['图号', '长', '宽', '高', '数量', '重量'], ['A', 1000, 1000, 1000, 3, 100]]
+    }));
+    const { mapping, hasHeader } = detectMapping(tables.Sheet1);
+    const preview = buildImportPreview(tables.Sheet1, mapping, hasHeader);
+    expect(preview.validRows).toEqual([expect.objectContaining({ mainDrawingNo: 'A', length: 1000, quantity: 3, weight: 100 })]);
+  });
+
+  it('throws on data that is not a workbook', () => {
+    expect(() => readWorkbookTables(new Uint8Array([0x50, 0x4b, 0x03, 0x04, 1, 2, 3]).buffer)).toThrow();
+  });
+});
@@ -0,0 +1,77 @@
+import * as XLSX from 'xlsx';
+import { translations } from './i18n';
+import { PlanReport } from './planReport';
+
+// --- Excel 导入导出 ---
+
+export interface WorkbookTables {
+  sheetNames: string[];
+  tables: Record<string, string[][]>; // 工作表名 -> 单元格表格（与 CSV 解析结果格式相同）
+}
+
+/**
+ * 读取 .xlsx 工作簿的所有工作表
+ * 单元格统一按显示文本读取，"7.997.70.552.0" 这类图号保持原样
+ */
+export const readWorkbookTables = (data: ArrayBuffer): WorkbookTables => {
+  const workbook = XLSX.read(data, { type: 'array' });
+  const tables: Record<string, string[][]> = {};
+  workbook.SheetNames.forEach(name => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: false, defval: '' });
+    tables[name] = rows
+      .map(row => row.map(cell => String(cell ?? '').trim()))
+      .filter(row => row.some(cell => cell !== ''));
+  });
+  return { sheetNames: workbook.SheetNames, tables };
+};
+
+/**
+ * 导出装载方案工作簿：物品位置与姿态、按图号汇总、集装箱统计三张表
+ */
+export const exportPlanWorkbook = (report: PlanReport, fileName: string) => {
+  const en = translations.en;
+
+  const itemSheet = XLSX.utils.aoa_to_sheet([
+    ['Container', '#', 'Main No', 'Sub No', 'Kit #', 'Length', 'Width', 'Height', 'Weight (kg)', 'X', 'Y', 'Z', 'Orientation'],
+    ...report.containers.flatMap(({ planned, itemRows }) => {
+      // 零件行记录所属组合件的序号
+      let kitIndex: number | null = null;
+      return itemRows.map(row => {
+        if (!row.isPart) kitIndex = row.index;
+        return [
+          planned.id, row.index ?? '', row.drawingNo, row.subDrawingNo, row.isPart ? kitIndex ?? '' : '',
+          row.length, row.width, row.height, row.weight, row.x, row.y, row.z, row.orientation
+        ];
+      });
+    })
+  ]);
+
+  const totalsSheet = XLSX.utils.aoa_to_sheet([
+    ['Main No', 'Sub No', 'Total Qty', 'Loaded Qty', 'Loaded Weight (kg)', 'Not Loaded Qty'],
+    ...report.drawingTotals.map(t => [t.drawingNo, t.subDrawingNo, t.totalQty, t.loadedQty, t.loadedWeight, t.stagedQty])
+  ]);
+
+  const containerSheet = XLSX.utils.aoa_to_sheet([
+    [
+      'Container', 'Type/Name', 'Length', 'Width', 'Height', 'Max Capacity (kg)',
+      'Loaded Weight (kg)', 'Weight Status', 'Utilization (%)', 'Volume (m3)', 'Loaded Items',
+      'CoG X', 'CoG Y', 'CoG Z', 'CoG Offset Long (%)', 'CoG Offset Lat (%)', 'CoG Status',
+      en.securing.AIRBAG, `${en.securing.DUNNAGE} (m3)`, en.securing.LASHING
+    ],
+    ...report.containers.map(({ planned, stats, securing }) => {
+      const material = (kind: 'AIRBAG' | 'DUNNAGE' | 'LASHING') => securing.materials.find(m => m.kind === kind)?.quantity ?? 0;
+      return [
+        planned.id, planned.config.name, planned.config.length, planned.config.width, planned.config.height, planned.config.maxWeight,
+        stats.totalWeight, en.weightStatus[stats.weightStatus], Number(stats.util.toFixed(2)), Number(stats.volM3.toFixed(2)), stats.loadedCount,
+        stats.cog.x, stats.cog.y, stats.cog.z, Number((stats.cogOffset.x * 100).toFixed(1)), Number((stats.cogOffset.z * 100).toFixed(1)), en.cogStatus[stats.cogStatus],
+        material('AIRBAG'), material('DUNNAGE'), material('LASHING')
+      ];
+    })
+  ]);
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, itemSheet, 'Items');
+  XLSX.utils.book_append_sheet(workbook, totalsSheet, 'Drawing Totals');
+  XLSX.utils.book_append_sheet(workbook, containerSheet, 'Containers');
+  XLSX.writeFile(workbook, fileName);
+};
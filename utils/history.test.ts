@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_HISTORY, HistoryCommand, HistoryState, MAX_HISTORY, PlanSnapshot, pushCommand, redo, travelTo, undo } from './history';
+
+// 用 planSeed 区分快照，便于断言恢复的是哪一步
+const snapshot = (planSeed: number): PlanSnapshot => ({ items: [], containers: [], manifest: [], planSeed });
+
+const command = (step: number): HistoryCommand => ({ kind: 'MOVE', at: step, before: snapshot(step - 1), after: snapshot(step) });
+
+const record = (steps: number) => {
+  let history: HistoryState = EMPTY_HISTORY;
+  for (let step = 1; step <= steps; step++) history = pushCommand(history, command(step));
+  return history;
+};
+
+describe('undo / redo', () => {
+  it('restores the state before and after a command', () => {
+    const undone = undo(record(2))!;
+    expect(undone.snapshot.planSeed).toBe(1);
+    expect(undone.history.past).toHaveLength(1);
+    expect(undone.history.future).toHaveLength(1);
+
+    const redone = redo(undone.history)!;
+    expect(redone.snapshot.planSeed).toBe(2);
+    expect(redone.history).toEqual(record(2));
+  });
+
+  it('does nothing past either end of the history', () => {
+    expect(undo(EMPTY_HISTORY)).toBeNull();
+    expect(redo(record(2))).toBeNull();
+  });
+
+  it('drops the redo steps when a new command is recorded', () => {
+    const { history } = undo(record(3))!;
+    const branched = pushCommand(history, command(9));
+    expect(branched.future).toEqual([]);
+    expect(branched.past.map(c => c.at)).toEqual([1, 2, 9]);
+  });
+
+  it('keeps only the most recent commands', () => {
+    const history = record(MAX_HISTORY + 5);
+    expect(history.past).toHaveLength(MAX_HISTORY);
+    expect(history.past[0].at).toBe(6);
+  });
+});
+
+describe('travelTo', () => {
+  it('jumps several steps in either direction', () => {
+    const back = travelTo(record(4), 1)!;
+    expect(back.snapshot.planSeed).toBe(1);
+    expect(back.history.past.map(c => c.at)).toEqual([1]);
+
+    const start = travelTo(back.history, 0)!;
+    expect(start.snapshot.planSeed).toBe(0);
+
+    const forward = travelTo(start.history, 3)!;
+    expect(forward.snapshot.planSeed).toBe(3);
+    expect(forward.history.future.map(c => c.at)).toEqual([4]);
+  });
+
+  it('rejects the current position and out-of-range positions', () => {
+    const history = record(2);
+    expect(travelTo(history, 2)).toBeNull();
+    expect(travelTo(history, -1)).toBeNull();
+    expect(travelTo(history, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { CargoItem, ImportedRow, PlannedContainer } from '../types';
+
+// --- 撤销 / 重做 (Undo / Redo) ---
+// 每次修改方案都记录为一条命令：命令保存执行前后的方案快照，撤销恢复前者，重做恢复后者。
+// 快照中的数组都是不可变数据，前后快照共享未改动的物品，记录成本很低。
+// 只改变选中、展开等界面状态的操作不记录，撤销步骤始终对应一次真正的方案修改
+
+export type CommandKind =
+  | 'MOVE'
+  | 'ROTATE'
+  | 'PIN'
+  | 'SOLVE'
+  | 'ADOPT_PLAN'
+  | 'IMPORT'
+  | 'RESET'
+  | 'COMBINE'
+  | 'SPLIT'
+  | 'PALLETIZE'
+  | 'RESTAGE'
+  | 'OPEN_PROJECT';
+
+// 方案本身的状态（不含当前查看的集装箱和求解设置）
+export interface PlanSnapshot {
+  items: CargoItem[];
+  containers: PlannedContainer[];
+  manifest: ImportedRow[];
+  planSeed: number | null;
+}
+
+export interface HistoryCommand {
+  kind: CommandKind;
+  detail?: string; // 如被移动物品的图号
+  at: number; // 执行时刻 (Date.now())
+  before: PlanSnapshot;
+  after: PlanSnapshot;
+}
+
+export interface HistoryState {
+  past: HistoryCommand[]; // 已执行的命令，最后一条最新
+  future: HistoryCommand[]; // 已撤销、可重做的命令，第一条最先被重做
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+// 最多保留的撤销步数
+export const MAX_HISTORY = 100;
+
+/**
+ * 记录一条新命令；新的修改会清空可重做的命令
+ */
+export const pushCommand = (history: HistoryState, command: HistoryCommand): HistoryState => ({
+  past: [...history.past, command].slice(-MAX_HISTORY),
+  future: []
+});
+
+/**
+ * 移动到第 position 步之后的状态（0 = 所有命令都撤销）
+ * 返回新的历史和需要恢复的快照；position 与当前位置相同或越界时返回 null
+ */
+export const travelTo = (history: HistoryState, position: number): { history: HistoryState, snapshot: PlanSnapshot } | null => {
+  const all = [...history.past, ...history.future];
+  const current = history.past.length;
+  if (position === current || position < 0 || position > all.length) return null;
+  return {
+    history: { past: all.slice(0, position), future: all.slice(position) },
+    snapshot: position < current ? all[position].before : all[position - 1].after
+  };
+};
+
+export const undo = (history: HistoryState) => travelTo(history, history.past.length - 1);
+
+export const redo = (history: HistoryState) => travelTo(history, history.past.length + 1);
@@ -10,7 +10,7 @@ export const translations = {
     dimensions: { l: "L (mm)", w: "W (mm)", h: "H (mm)" },
     importManifest: "Import Manifest",
     uploadText: "Upload Pre-box CSV",
-    uploadHint: "Cols: MainNo, SubNo, L, W, H, Qty, Wgt",
+    uploadHint: "Cols: MainNo, SubNo, L, W, H, Qty, Wgt, [Orientation, MaxStackLoad, NonStackable, TopOnly, Stop, KitQty, Shape, Mandatory, Priority, Value]",
     showLabels: "Show Drawing Nos",
     cargoList: "Cargo List",
     items: "Items",
@@ -39,7 +39,124 @@ export const translations = {
     holdShift: "Hold Shift to Lift (Y-Axis)",
     customContainer: "Custom (11500x1800x1800)",
     standardContainer: "40' High Cube Standard",
-    alertNoData: "No valid data found in CSV."
+    alertNoData: "No valid data found in the manifest.",
+    alertCombineOverlap: "Cannot combine: the combined bounding box would overlap other cargo or an obstacle.",
+    weightStatus: { OK: "OK", OVERWEIGHT: "OVERWEIGHT" },
+    stagingReasons: { NO_SPACE: "No space left", OVERWEIGHT: "Exceeds payload", TIMEOUT: "Time budget exhausted", DOOR_CLEARANCE: "Too large for door opening" },
+    orientationRules: { ANY: "May lay flat", UPRIGHT: "This side up", FIXED: "No rotation" },
+    stackRules: { maxStackLoad: "Max load on top", nonStackable: "Non-stackable", topOnly: "Top only" },
+    issues: { UNSUPPORTED: "Unsupported (floating)", BLOCKED: "Blocked by later stop", OUT_OF_BOUNDS: "Outside container bounds", DOOR_CLEARANCE: "Does not fit through door", MANDATORY_UNLOADED: "Must ship but not loaded" },
+    stopLabel: "Stop",
+    cogStatus: { OK: "BALANCED", OUT_OF_WINDOW: "OUT OF WINDOW" },
+    colorModes: { DRAWING: "Color: Drawing No", STOP: "Color: Delivery Stop" },
+    placementPolicy: "Placement Policy",
+    placementPolicies: {
+      RACE: "Race All",
+      BOTTOM_LEFT: "Bottom-Left",
+      EXTREME_POINT: "Extreme Points",
+      BEST_FIT: "Best Fit (Leftover Volume)",
+      WALL_BUILDING: "Wall Building",
+      LAYER_BUILDING: "Layer Building"
+    },
+    pinned: "Pinned",
+    pin: "Pin in place",
+    unpin: "Unpin",
+    pinHint: "Double-click to pin / unpin",
+    kitParts: "parts",
+    combineSelected: "Combine",
+    splitGroup: "Split Kit",
+    multiSelectHint: "Ctrl / ⌘ + click to select several",
+    palletization: "Palletization",
+    palletTemplate: "Pallet",
+    palletMaxHeight: "Max H",
+    palletMaxWeight: "Max kg",
+    palletizeSelected: "Palletize Selected Rows",
+    palletizeHint: "All items of the selected rows go onto pallets, then solve to load the pallets",
+    pallet: "Pallet",
+    expandPallet: "Show pallet contents",
+    collapsePallet: "Hide pallet contents",
+    shapes: {
+      BOX: "Box",
+      CYLINDER_UPRIGHT: "Upright Cylinder",
+      CYLINDER_LYING: "Lying Cylinder"
+    },
+    objective: "Objective Weights",
+    objectiveTerms: {
+      volume: "Volume",
+      weight: "Weight",
+      value: "Value",
+      count: "Pieces",
+      priority: "Priority"
+    },
+    mandatory: "Must Ship",
+    priorityLabel: "Priority",
+    valueLabel: "Value",
+    mandatoryMissing: "Must-ship not loaded",
+    keepPlans: "Keep Top Plans",
+    planComparison: "Plan Comparison",
+    planComparisonHint: "Click a plan to preview it in the scene",
+    planMetrics: { util: "Util", count: "Pcs", weight: "Wgt", cog: "CoG L/T", rotated: "Rot" },
+    previewing: "Previewing Plan",
+    adoptPlan: "Adopt",
+    exitPreview: "Exit",
+    voidAnalysis: "Void Analysis",
+    showVoids: "Show Voids",
+    gapThreshold: "Min Gap (mm)",
+    airbagMaxGap: "Airbag Max Gap (mm)",
+    voidVolume: "Void Volume",
+    noSecuringNeeded: "No securing needed",
+    lashingRows: "Unrestrained rows",
+    securing: { AIRBAG: "Airbags", DUNNAGE: "Dunnage", LASHING: "Lashing straps" },
+    securingUnits: { pcs: "pcs", m3: "m³" },
+    importPreview: "Import Preview",
+    firstRowHeader: "First row is header",
+    sheet: "Sheet",
+    workbookReadFailed: "The workbook could not be read. The file may be damaged, password-protected or not an Excel file.",
+    history: "History",
+    undo: "Undo",
+    redo: "Redo",
+    historyHint: "Ctrl+Z to undo, Ctrl+Y to redo",
+    rotate90: "Rotate 90°",
+    rotateHint: "Rotate selected items about the vertical axis (R)",
+    commands: {
+      MOVE: "Move", ROTATE: "Rotate", PIN: "Pin / Unpin", SOLVE: "Auto-Planner", ADOPT_PLAN: "Adopt Plan",
+      IMPORT: "Import", RESET: "Reset", COMBINE: "Combine", SPLIT: "Split", PALLETIZE: "Palletize", RESTAGE: "Restage", OPEN_PROJECT: "Open Project"
+    },
+    project: "Project",
+    saveProject: "Save",
+    openProject: "Open",
+    autosaved: "Autosaved at",
+    autosaveHint: "Changes are autosaved in this browser",
+    autosaveFailed: "Autosave failed: browser storage is full or disabled",
+    recoveryFound: "Unsaved session found",
+    restoreSession: "Restore",
+    discardSession: "Discard",
+    projectErrors: { INVALID_FILE: "Not a valid project file.", NEWER_VERSION: "This project was saved by a newer version and cannot be opened." },
+    projectItemsSkipped: "item(s) in the project file were damaged and have not been loaded.",
+    column: "Column",
+    notMapped: "— Not mapped —",
+    moreRows: "more rows not shown",
+    importRows: "Import",
+    cancel: "Cancel",
+    missingRequired: "Unmapped required fields",
+    importSummary: { valid: "Valid rows", errors: "Rows with errors", warnings: "Rows with warnings" },
+    importIssuesLabel: "Checks",
+    importFields: {
+      mainDrawingNo: "Main No", subDrawingNo: "Sub No", length: "Length", width: "Width", height: "Height",
+      quantity: "Qty", weight: "Weight", orientation: "Orientation", maxStackLoad: "Max Load", nonStackable: "Non-Stack",
+      topOnly: "Top Only", stop: "Stop", kitQuantity: "Kit Qty", shape: "Shape", mandatory: "Mandatory",
+      priority: "Priority", value: "Value"
+    },
+    importIssues: {
+      MISSING_DRAWING_NO: "Missing drawing no.",
+      INVALID_DIMENSION: "Invalid dimension",
+      INVALID_QUANTITY: "Invalid quantity",
+      INVALID_WEIGHT: "Invalid weight",
+      ZERO_WEIGHT: "Zero weight",
+      INVALID_NUMBER: "Not a number, ignored",
+      UNRECOGNIZED_VALUE: "Unrecognized value, default used",
+      DUPLICATE: "Duplicate of row"
+    }
   },
   zh: {
     title: "SmartContainer 3D",
@@ -49,7 +166,7 @@ export const translations = {
     dimensions: { l: "长 (mm)", w: "宽 (mm)", h: "高 (mm)" },
     importManifest: "导入清单",
     uploadText: "上传装箱单 CSV",
-    uploadHint: "列: 主号, 子号, 长, 宽, 高, 数量, 重量",
+    uploadHint: "列: 主号, 子号, 长, 宽, 高, 数量, 重量, [姿态, 最大承重, 不可堆叠, 仅顶层, 卸货站, 组套数, 外形, 必须发运, 优先级, 货值]",
     showLabels: "显示图号",
     cargoList: "货物列表",
     items: "件",
@@ -78,6 +195,123 @@ export const translations = {
     holdShift: "按住 Shift 键进行升降",
     customContainer: "自定义 (11500x1800x1800)",
     standardContainer: "40尺高柜 (标准)",
-    alertNoData: "CSV中未发现有效数据。"
+    alertNoData: "装箱单中未发现有效数据。",
+    alertCombineOverlap: "无法组合：组合后的外廓会与其他货物或障碍物重叠。",
+    weightStatus: { OK: "正常", OVERWEIGHT: "超重" },
+    stagingReasons: { NO_SPACE: "空间不足", OVERWEIGHT: "超出载重", TIMEOUT: "求解时间用尽", DOOR_CLEARANCE: "无法通过箱门" },
+    orientationRules: { ANY: "可平放", UPRIGHT: "此面向上", FIXED: "禁止旋转" },
+    stackRules: { maxStackLoad: "顶部最大承重", nonStackable: "不可堆叠", topOnly: "仅限顶层" },
+    issues: { UNSUPPORTED: "支撑不足 (悬空)", BLOCKED: "被后卸货物阻挡", OUT_OF_BOUNDS: "超出集装箱边界", DOOR_CLEARANCE: "无法通过箱门", MANDATORY_UNLOADED: "必须发运但未装入" },
+    stopLabel: "卸货站",
+    cogStatus: { OK: "平衡", OUT_OF_WINDOW: "超出范围" },
+    colorModes: { DRAWING: "着色：按图号", STOP: "着色：按卸货站" },
+    placementPolicy: "摆放策略",
+    placementPolicies: {
+      RACE: "全部比拼",
+      BOTTOM_LEFT: "靠下靠里",
+      EXTREME_POINT: "极点法",
+      BEST_FIT: "最佳适配（剩余体积）",
+      WALL_BUILDING: "砌墙法",
+      LAYER_BUILDING: "分层法"
+    },
+    pinned: "已锁定",
+    pin: "锁定位置",
+    unpin: "解除锁定",
+    pinHint: "双击锁定 / 解锁",
+    kitParts: "个零件",
+    combineSelected: "组合",
+    splitGroup: "拆分组合件",
+    multiSelectHint: "按住 Ctrl / ⌘ 点击可多选",
+    palletization: "托盘化",
+    palletTemplate: "托盘规格",
+    palletMaxHeight: "限高",
+    palletMaxWeight: "限重",
+    palletizeSelected: "选中行装托盘",
+    palletizeHint: "选中货物所在清单行全部装上托盘，再求解把托盘装箱",
+    pallet: "托盘",
+    expandPallet: "展开托盘内容",
+    collapsePallet: "收起托盘内容",
+    shapes: {
+      BOX: "箱形",
+      CYLINDER_UPRIGHT: "立式圆柱",
+      CYLINDER_LYING: "卧式圆柱"
+    },
+    objective: "优化目标权重",
+    objectiveTerms: {
+      volume: "体积",
+      weight: "重量",
+      value: "货值",
+      count: "件数",
+      priority: "优先级"
+    },
+    mandatory: "必须发运",
+    priorityLabel: "优先级",
+    valueLabel: "货值",
+    mandatoryMissing: "必须发运未装",
+    keepPlans: "保留方案数",
+    planComparison: "方案比较",
+    planComparisonHint: "点击方案可在场景中预览",
+    planMetrics: { util: "利用率", count: "件数", weight: "重量", cog: "重心 纵/横", rotated: "翻转" },
+    previewing: "预览方案",
+    adoptPlan: "采用",
+    exitPreview: "退出",
+    voidAnalysis: "空隙分析",
+    showVoids: "显示空隙",
+    gapThreshold: "最小缝隙 (mm)",
+    airbagMaxGap: "充气袋最大缝隙 (mm)",
+    voidVolume: "空隙体积",
+    noSecuringNeeded: "无需额外加固",
+    lashingRows: "无约束货物排",
+    securing: { AIRBAG: "充气袋", DUNNAGE: "垫木", LASHING: "绑扎带" },
+    securingUnits: { pcs: "件", m3: "m³" },
+    importPreview: "导入预览",
+    firstRowHeader: "首行为表头",
+    sheet: "工作表",
+    workbookReadFailed: "无法读取该工作簿：文件可能已损坏、有密码保护或不是 Excel 文件。",
+    history: "操作历史",
+    undo: "撤销",
+    redo: "重做",
+    historyHint: "Ctrl+Z 撤销，Ctrl+Y 重做",
+    rotate90: "旋转 90°",
+    rotateHint: "绕竖直轴旋转选中的物品 (R)",
+    commands: {
+      MOVE: "移动", ROTATE: "旋转", PIN: "锁定 / 解锁", SOLVE: "自动排布", ADOPT_PLAN: "采用方案",
+      IMPORT: "导入", RESET: "重置", COMBINE: "组合", SPLIT: "拆分", PALLETIZE: "托盘化", RESTAGE: "重排待装区", OPEN_PROJECT: "打开项目"
+    },
+    project: "项目文件",
+    saveProject: "保存",
+    openProject: "打开",
+    autosaved: "已自动保存于",
+    autosaveHint: "改动会自动保存在本浏览器中",
+    autosaveFailed: "自动保存失败：浏览器存储已满或被禁用",
+    recoveryFound: "发现未保存的会话",
+    restoreSession: "恢复",
+    discardSession: "丢弃",
+    projectErrors: { INVALID_FILE: "不是有效的项目文件。", NEWER_VERSION: "该项目由更新版本保存，无法打开。" },
+    projectItemsSkipped: "件货物的数据已损坏，未能读入。",
+    column: "列",
+    notMapped: "— 不导入 —",
+    moreRows: "行未显示",
+    importRows: "导入",
+    cancel: "取消",
+    missingRequired: "未映射的必填字段",
+    importSummary: { valid: "有效行", errors: "错误行", warnings: "警告行" },
+    importIssuesLabel: "检查结果",
+    importFields: {
+      mainDrawingNo: "主图号", subDrawingNo: "子图号", length: "长", width: "宽", height: "高",
+      quantity: "数量", weight: "重量", orientation: "摆放方向", maxStackLoad: "最大承重", nonStackable: "不可堆叠",
+      topOnly: "只能放顶层", stop: "卸货站", kitQuantity: "组套数量", shape: "形状", mandatory: "必须发运",
+      priority: "优先级", value: "价值"
+    },
+    importIssues: {
+      MISSING_DRAWING_NO: "缺少图号",
+      INVALID_DIMENSION: "尺寸无效",
+      INVALID_QUANTITY: "数量无效",
+      INVALID_WEIGHT: "重量无效",
+      ZERO_WEIGHT: "重量为零",
+      INVALID_NUMBER: "不是数字，已忽略",
+      UNRECOGNIZED_VALUE: "无法识别，使用默认值",
+      DUPLICATE: "与该行重复"
+    }
   }
 };
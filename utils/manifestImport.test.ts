@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { buildImportPreview, detectMapping, getPositionalMapping, parseDelimited } from './manifestImport';
+
+describe('parseDelimited', () => {
+  it('handles quotes, escaped quotes, embedded newlines and CRLF', () => {
+    const text = '\uFEFFa,b,c\r\n"x, y","say ""hi""","two\nlines"\r\n';
+    expect(parseDelimited(text)).toEqual([
+      ['a', 'b', 'c'],
+      ['x, y', 'say "hi"', 'two\nlines']
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters from the first line', () => {
+    expect(parseDelimited('a;b;c\n1;2,5;3')).toEqual([['a', 'b', 'c'], ['1', '2,5', '3']]);
+    expect(parseDelimited('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('drops empty lines', () => {
+    expect(parseDelimited('a,b\n\n,\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('detectMapping', () => {
+  it('maps English and Chinese header aliases in any column order', () => {
+    const { mapping, hasHeader } = detectMapping([['Qty', 'Weight (kg)', '图号', '长度（mm）', 'W', 'H']]);
+    expect(hasHeader).toBe(true);
+    expect(mapping).toMatchObject({ quantity: 0, weight: 1, mainDrawingNo: 2, length: 3, width: 4, height: 5 });
+  });
+
+  it('falls back to the legacy column order without a header', () => {
+    const { mapping, hasHeader } = detectMapping([['A', 'A-1', '1200', '800', '600', '2', '50']]);
+    expect(hasHeader).toBe(false);
+    expect(mapping).toEqual(getPositionalMapping());
+  });
+});
+
+describe('buildImportPreview', () => {
+  const header = ['Drawing', 'Sub No', 'L', 'W', 'H', 'Qty', 'Weight', 'Orientation', 'Stop'];
+  const preview = (...rows: string[][]) => {
+    const table = [header, ...rows];
+    return buildImportPreview(table, detectMapping(table).mapping, true);
+  };
+
+  it('converts valid rows, including thousands separators and decimal commas', () => {
+    const result = preview(['A', 'A-1', '1,200', '800', '600', '2', '12,5', 'this side up', '2']);
+    expect(result.errorCount).toBe(0);
+    expect(result.validRows).toEqual([expect.objectContaining({
+      mainDrawingNo: 'A', subDrawingNo: 'A-1', length: 1200, width: 800, height: 600,
+      quantity: 2, weight: 12.5, orientation: 'UPRIGHT', stop: 2
+    })]);
+  });
+
+  it('rejects rows with missing drawing numbers, bad dimensions or quantities', () => {
+    const result = preview(
+      ['', 'x', '100', '100', '100', '1', '1'],
+      ['B', 'x', '0', '100', 'abc', '1', '1'],
+      ['C', 'x', '100', '100', '100', '1.5', '1']
+    );
+    expect(result.validRows).toEqual([]);
+    expect(result.results.map(r => r.errors.map(e => e.code))).toEqual([
+      ['MISSING_DRAWING_NO'],
+      ['INVALID_DIMENSION', 'INVALID_DIMENSION'],
+      ['INVALID_QUANTITY']
+    ]);
+  });
+
+  it('imports rows with warnings and reports them', () => {
+    const result = preview(
+      ['A', 'A-1', '100', '100', '100', '1', '', 'sideways', 'two'],
+      ['A', 'A-1', '100', '100', '100', '3', '5']
+    );
+    expect(result.validRows).toHaveLength(2);
+    expect(result.results[0].warnings.map(w => w.code)).toEqual(['ZERO_WEIGHT', 'UNRECOGNIZED_VALUE', 'INVALID_NUMBER']);
+    expect(result.results[1].warnings).toEqual([{ code: 'DUPLICATE', duplicateOf: 2 }]);
+  });
+
+  it('imports nothing while a required field is unmapped', () => {
+    const table = [['Drawing', 'L', 'W', 'H', 'Qty'], ['A', '1', '1', '1', '1']];
+    const result = buildImportPreview(table, detectMapping(table).mapping, true);
+    expect(result.missingFields).toEqual(['weight']);
+    expect(result.validRows).toEqual([]);
+  });
+});
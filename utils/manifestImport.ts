@@ -0,0 +1,268 @@
+import { ImportedRow } from '../types';
+import { parseFlag, parseOrientationRule, parseShape } from './packingAlgorithm';
+
+// --- 装箱单导入 (Manifest Import) ---
+// 流程：原始文本 -> 单元格表格 -> 表头映射到 ImportedRow 字段 -> 逐行校验生成预览 -> 用户确认后导入
+
+export type ImportField = keyof ImportedRow;
+
+// 字段 -> 列下标；未映射的字段不出现
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// 旧版固定列顺序：没有可识别的表头时按此顺序读取
+export const IMPORT_FIELDS: ImportField[] = [
+  'mainDrawingNo', 'subDrawingNo', 'length', 'width', 'height', 'quantity', 'weight',
+  'orientation', 'maxStackLoad', 'nonStackable', 'topOnly', 'stop', 'kitQuantity',
+  'shape', 'mandatory', 'priority', 'value'
+];
+
+export const REQUIRED_FIELDS: ImportField[] = ['mainDrawingNo', 'length', 'width', 'height', 'quantity', 'weight'];
+
+// 表头别名（已按 normalizeHeader 规范化）：英文字段名、常见缩写、ERP 导出的中文表头
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  mainDrawingNo: ['maindrawingno', 'mainno', 'drawingno', 'drawing', 'partno', '图号', '主图号', '总图号', '物料号'],
+  subDrawingNo: ['subdrawingno', 'subno', 'subpart', 'description', '子图号', '分图号', '零件号', '名称', '零件名称'],
+  length: ['length', 'len', 'l', '长', '长度'],
+  width: ['width', 'wid', 'w', '宽', '宽度'],
+  height: ['height', 'hgt', 'h', '高', '高度'],
+  quantity: ['quantity', 'qty', 'pcs', '数量', '件数'],
+  weight: ['weight', 'wgt', 'kg', '重量', '单重', '毛重', '单件重量'],
+  orientation: ['orientation', 'orient', '摆放方向', '方向', '朝向'],
+  maxStackLoad: ['maxstackload', 'stackload', 'maxload', '最大承重', '承重'],
+  nonStackable: ['nonstackable', 'nostack', '不可堆叠', '禁止堆叠'],
+  topOnly: ['toponly', '只能放顶层', '仅顶层', '顶层'],
+  stop: ['stop', 'deliverystop', '卸货站', '卸货站点', '站点'],
+  kitQuantity: ['kitqty', 'kitquantity', 'kits', '套数', '组套数量'],
+  shape: ['shape', '形状'],
+  mandatory: ['mandatory', 'mustship', '必须发运', '必发'],
+  priority: ['priority', 'prio', '优先级'],
+  value: ['value', 'cargovalue', '价值', '货值']
+};
+
+// 去掉括号里的单位、空格和标点，统一小写："Length (mm)" -> "length"，"长度（mm）" -> "长度"
+const normalizeHeader = (raw: string): string =>
+  raw.toLowerCase().replace(/[(（[].*?[)）\]]/g, '').replace(/[^a-z0-9\u4e00-\u9fff]/g, '');
+
+/**
+ * 解析带分隔符的文本（CSV / 分号分隔 / 制表符分隔）
+ * 支持 UTF-8 BOM、双引号包裹的字段（字段内可含分隔符、换行和 "" 转义）以及 \r\n 换行
+ */
+export const parseDelimited = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const table: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      table.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim());
+    table.push(row);
+  }
+  // 空行（包括只有分隔符的行）不参与导入
+  return table.filter(r => r.some(c => c !== ''));
+};
+
+// 以首行中（引号外）出现次数最多的候选分隔符为准
+const detectDelimiter = (text: string): string => {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === '\n' || ch === '\r')) break;
+    else if (!quoted && ch in counts) counts[ch]++;
+  }
+  return Object.keys(counts).reduce((best, d) => counts[d] > counts[best] ? d : best, ',');
+};
+
+/**
+ * 根据首行识别表头映射
+ * 首行没有可识别的字段时按旧版固定列顺序映射；此时首行的长度列不是数字才视为表头
+ */
+export const detectMapping = (table: string[][]): { mapping: ColumnMapping, hasHeader: boolean } => {
+  const header = (table[0] || []).map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const col = header.findIndex((h, idx) =>
+      HEADER_ALIASES[field].includes(h) && !Object.values(mapping).includes(idx)
+    );
+    if (col >= 0) mapping[field] = col;
+  });
+
+  if (REQUIRED_FIELDS.some(f => mapping[f] !== undefined)) return { mapping, hasHeader: true };
+  const positional = getPositionalMapping();
+  const firstLength = parseNumber((table[0] || [])[positional.length!]);
+  return { mapping: positional, hasHeader: firstLength === undefined || isNaN(firstLength) };
+};
+
+export const getPositionalMapping = (): ColumnMapping =>
+  Object.fromEntries(IMPORT_FIELDS.map((field, idx) => [field, idx]));
+
+// --- 导入校验 (Validation) ---
+
+export type ImportIssueCode =
+  | 'MISSING_DRAWING_NO'
+  | 'INVALID_DIMENSION'
+  | 'INVALID_QUANTITY'
+  | 'INVALID_WEIGHT'
+  | 'ZERO_WEIGHT'
+  | 'INVALID_NUMBER'
+  | 'UNRECOGNIZED_VALUE'
+  | 'DUPLICATE';
+
+export interface ImportIssue {
+  code: ImportIssueCode;
+  field?: ImportField;
+  duplicateOf?: number; // DUPLICATE：与第几行重复（表格行号，从 1 开始）
+}
+
+export interface ImportRowResult {
+  line: number; // 表格中的行号（从 1 开始，含表头）
+  cells: string[];
+  row: ImportedRow | null; // 有错误时为 null，不会被导入
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+export interface ImportPreview {
+  results: ImportRowResult[];
+  validRows: ImportedRow[];
+  errorCount: number;
+  warningCount: number;
+  missingFields: ImportField[]; // 尚未映射的必填字段
+}
+
+const RECOGNIZED_ORIENTATIONS = ['', 'ANY', 'MAY_LAY_FLAT', '可平放'];
+const RECOGNIZED_FLAGS = ['', 'Y', 'YES', 'TRUE', '1', '是', 'N', 'NO', 'FALSE', '0', '否'];
+
+// 数值单元格：空单元格为 undefined，无法解析为 NaN
+// 同时兼容千分位逗号 (1,200 / 1,200.5) 和分号分隔文件常用的小数逗号 (12,5)
+const parseNumber = (raw?: string): number | undefined => {
+  let text = (raw || '').replace(/\s/g, '');
+  if (text === '') return undefined;
+  if (text.includes('.') || /^-?\d{1,3}(,\d{3})+$/.test(text)) text = text.replace(/,/g, '');
+  else text = text.replace(',', '.');
+  const value = Number(text);
+  return isNaN(value) ? NaN : value;
+};
+
+/**
+ * 按映射把表格逐行转换为 ImportedRow，并给出每行的错误（不导入）和警告（仍导入）
+ */
+export const buildImportPreview = (table: string[][], mapping: ColumnMapping, hasHeader: boolean): ImportPreview => {
+  const missingFields = REQUIRED_FIELDS.filter(f => mapping[f] === undefined);
+  const seen = new Map<string, number>();
+  const results: ImportRowResult[] = [];
+
+  table.forEach((cells, idx) => {
+    if (hasHeader && idx === 0) return;
+    const line = idx + 1;
+    const errors: ImportIssue[] = [];
+    const warnings: ImportIssue[] = [];
+    const cell = (field: ImportField): string => {
+      const col = mapping[field];
+      return col === undefined ? '' : (cells[col] || '').trim();
+    };
+    // 可选数值列：空白忽略，无法解析时警告并忽略
+    const optionalNumber = (field: ImportField, integer: boolean = false): number | undefined => {
+      const value = parseNumber(cell(field));
+      if (value === undefined) return undefined;
+      if (isNaN(value) || (integer && !Number.isInteger(value))) {
+        warnings.push({ code: 'INVALID_NUMBER', field });
+        return undefined;
+      }
+      return value;
+    };
+    const recognized = (field: ImportField, known: string[], parsedDefault: boolean) => {
+      const key = cell(field).toUpperCase().replace(/[\s-]+/g, '_');
+      if (parsedDefault && !known.includes(key)) warnings.push({ code: 'UNRECOGNIZED_VALUE', field });
+    };
+
+    const mainDrawingNo = cell('mainDrawingNo');
+    if (!mainDrawingNo) errors.push({ code: 'MISSING_DRAWING_NO', field: 'mainDrawingNo' });
+
+    const dims = (['length', 'width', 'height'] as const).map(field => {
+      const value = parseNumber(cell(field));
+      if (value === undefined || isNaN(value) || value <= 0) errors.push({ code: 'INVALID_DIMENSION', field });
+      return value ?? NaN;
+    });
+
+    const quantity = parseNumber(cell('quantity'));
+    if (quantity === undefined || isNaN(quantity) || quantity <= 0 || !Number.isInteger(quantity)) {
+      errors.push({ code: 'INVALID_QUANTITY', field: 'quantity' });
+    }
+
+    const weight = parseNumber(cell('weight'));
+    if (weight !== undefined && (isNaN(weight) || weight < 0)) errors.push({ code: 'INVALID_WEIGHT', field: 'weight' });
+    else if (!weight) warnings.push({ code: 'ZERO_WEIGHT', field: 'weight' });
+
+    const orientation = parseOrientationRule(cell('orientation'));
+    recognized('orientation', RECOGNIZED_ORIENTATIONS, orientation === 'ANY');
+    const shape = parseShape(cell('shape'));
+    recognized('shape', ['', 'BOX', '箱'], shape === 'BOX');
+    (['nonStackable', 'topOnly', 'mandatory'] as const).forEach(field => recognized(field, RECOGNIZED_FLAGS, true));
+
+    const row: ImportedRow = {
+      mainDrawingNo,
+      subDrawingNo: cell('subDrawingNo'),
+      length: dims[0], width: dims[1], height: dims[2],
+      quantity: quantity ?? 1,
+      weight: weight || 0,
+      orientation,
+      maxStackLoad: optionalNumber('maxStackLoad'),
+      nonStackable: parseFlag(cell('nonStackable')),
+      topOnly: parseFlag(cell('topOnly')),
+      stop: optionalNumber('stop', true),
+      kitQuantity: optionalNumber('kitQuantity', true),
+      shape,
+      mandatory: parseFlag(cell('mandatory')),
+      priority: optionalNumber('priority'),
+      value: optionalNumber('value')
+    };
+
+    // 图号和尺寸完全相同的行很可能是重复导出，仍然导入但给出警告
+    if (errors.length === 0) {
+      const key = [row.mainDrawingNo, row.subDrawingNo, row.length, row.width, row.height].join('|');
+      const first = seen.get(key);
+      if (first !== undefined) warnings.push({ code: 'DUPLICATE', duplicateOf: first });
+      else seen.set(key, line);
+    }
+
+    results.push({ line, cells, row: errors.length === 0 ? row : null, errors, warnings });
+  });
+
+  return {
+    results,
+    validRows: missingFields.length > 0 ? [] : results.flatMap(r => r.row ? [r.row] : []),
+    errorCount: results.filter(r => r.errors.length > 0).length,
+    warningCount: results.filter(r => r.warnings.length > 0).length,
+    missingFields
+  };
+};
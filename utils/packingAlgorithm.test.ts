@@ -0,0 +1,607 @@
+import { describe, it, expect } from 'vitest';
+import { CargoItem, ContainerConfig, ImportedRow, ObjectiveWeights, PalletTemplate, PlacementPolicyId } from '../types';
+import {
+  analyzeVoids, autoPack, balanceLoad, checkCollision, checkStackingWithCoords, checkSupportWithCoords, combineItems, computeLoadStats, computeStackAnalysis, createCargoGroups, DEFAULT_OBJECTIVE, getBaseDimensions, getItemVolume, getItemZone, getOrientedDimensions, getPalletContents, getStackLimit, getUsableVolume, isAllowedOrientation, LoadingStep, mergeSecuringMaterials, optimizeFleet, optimizeLoad, palletizeItems, parseOrientationRule, PLACEMENT_POLICY_IDS, planFleet, planLoadingSteps, rotateItemYaw, splitGroup, summarizePlan, validatePlan
+} from './packingAlgorithm';
+
+// 测试用的简单箱型与清单行；求解器选项固定种子并减少迭代，保证结果可复现且运行快
+const BOX: ContainerConfig = { name: 'Test', length: 6000, width: 2400, height: 2400, maxWeight: 0 };
+const FAST = { seed: 1, searchIterations: 4 };
+
+const row = (patch: Partial<ImportedRow> = {}): ImportedRow => ({
+  mainDrawingNo: 'A', subDrawingNo: 'A-1', length: 1000, width: 1000, height: 1000, quantity: 1, weight: 100, ...patch
+});
+
+// 把一件货物放到指定位置
+const at = (item: CargoItem, x: number, y: number, z: number): CargoItem => ({ ...item, position: [x, y, z] });
+
+const loadedIn = (items: CargoItem[], container: ContainerConfig) => items.filter(i => getItemZone(i, container) === 'CONTAINER');
+const totalWeight = (items: CargoItem[]) => items.reduce((sum, i) => sum + i.weight, 0);
+
+describe('weight limit', () => {
+  it('stops loading at maxWeight and stages the rest as overweight', () => {
+    const container = { ...BOX, maxWeight: 450 };
+    const result = optimizeLoad([row({ quantity: 10 })], container, FAST);
+    const loaded = loadedIn(result, container);
+    expect(loaded).toHaveLength(4);
+    expect(totalWeight(loaded)).toBeLessThanOrEqual(450);
+    const staged = result.filter(i => !loaded.includes(i));
+    expect(staged).toHaveLength(6);
+    expect(staged.every(i => i.stagingReason === 'OVERWEIGHT')).toBe(true);
+  });
+
+  it('treats maxWeight 0 as unlimited', () => {
+    const result = optimizeLoad([row({ quantity: 10, weight: 5000 })], BOX, FAST);
+    expect(loadedIn(result, BOX)).toHaveLength(10);
+  });
+});
+
+describe('orientation', () => {
+  const dims = { length: 1200, width: 800, height: 300 };
+
+  it('maps every orientation to the matching edges and back', () => {
+    expect(getOrientedDimensions(dims, 'WLH')).toEqual({ length: 800, width: 1200, height: 300 });
+    expect(getOrientedDimensions(dims, 'LHW')).toEqual({ length: 1200, width: 300, height: 800 });
+    for (const orientation of ['LWH', 'WLH', 'LHW', 'HLW', 'WHL', 'HWL'] as const) {
+      const item = { ...createCargoGroups([row(dims)])[0], orientation, dimensions: getOrientedDimensions(dims, orientation) };
+      expect(getBaseDimensions(item)).toEqual(dims);
+    }
+  });
+
+  it('reads orientation rules from the manifest', () => {
+    expect(parseOrientationRule('this side up')).toBe('UPRIGHT');
+    expect(parseOrientationRule('禁止旋转')).toBe('FIXED');
+    expect(parseOrientationRule('')).toBe('ANY');
+  });
+
+  it('checks poses against the orientation rule', () => {
+    expect(isAllowedOrientation('LHW', 'ANY')).toBe(true);
+    expect(isAllowedOrientation('WLH', 'UPRIGHT')).toBe(true);
+    expect(isAllowedOrientation('LHW', 'UPRIGHT')).toBe(false);
+    expect(isAllowedOrientation('WLH', 'FIXED')).toBe(false);
+    expect(isAllowedOrientation('XYZ')).toBe(false);
+  });
+
+  it('rotates about the vertical axis only when the rule allows it', () => {
+    const [item] = createCargoGroups([row({ ...dims, orientation: 'UPRIGHT' })]);
+    const turned = rotateItemYaw(item)!;
+    expect(turned.orientation).toBe('WLH');
+    expect(turned.dimensions).toEqual({ length: 800, width: 1200, height: 300 });
+    expect(rotateItemYaw({ ...item, orientationRule: 'FIXED' })).toBeNull();
+  });
+
+  it('lays a tall item down only when it may be tipped over', () => {
+    const tall = { length: 1000, width: 1000, height: 3000 };
+    const free = optimizeLoad([row({ ...tall, orientation: 'ANY' })], BOX, FAST);
+    expect(loadedIn(free, BOX)).toHaveLength(1);
+    expect(free[0].dimensions.height).toBeLessThanOrEqual(BOX.height);
+    const upright = optimizeLoad([row({ ...tall, orientation: 'UPRIGHT' })], BOX, FAST);
+    expect(loadedIn(upright, BOX)).toHaveLength(0);
+  });
+});
+
+describe('stacking', () => {
+  const [base, middle, top] = createCargoGroups([row({ quantity: 3 })]);
+  const boxOf = (item: CargoItem) => ({
+    x: item.position[0], y: item.position[1], z: item.position[2],
+    l: item.dimensions.length, h: item.dimensions.height, w: item.dimensions.width, id: item.id
+  });
+
+  it('derives the stack limit from the item flags', () => {
+    expect(getStackLimit(base)).toBe(Infinity);
+    expect(getStackLimit({ ...base, maxStackLoad: 250 })).toBe(250);
+    expect(getStackLimit({ ...base, nonStackable: true })).toBe(0);
+    expect(getStackLimit({ ...base, topOnly: true })).toBe(0);
+  });
+
+  it('passes the weight of upper items down the stack', () => {
+    const stack = [at(base, 0, 0, 0), at(middle, 0, 1000, 0), { ...at(top, 0, 2000, 0), weight: 40 }];
+    const analysis = computeStackAnalysis(stack);
+    expect(analysis.loads[base.id]).toBe(140);
+    expect(analysis.loads[middle.id]).toBe(40);
+    expect(analysis.loads[top.id]).toBe(0);
+  });
+
+  it('rejects placements that break a stacking rule', () => {
+    const placed = at(middle, 0, 1000, 0);
+    expect(checkStackingWithCoords(boxOf(placed), [at(base, 0, 0, 0), placed])).toBe(false);
+    expect(checkStackingWithCoords(boxOf(placed), [{ ...at(base, 0, 0, 0), nonStackable: true }, placed])).toBe(true);
+    expect(checkStackingWithCoords(boxOf(placed), [{ ...at(base, 0, 0, 0), maxStackLoad: 50 }, placed])).toBe(true);
+    // 自身不可堆叠时，上方已有货物也不行
+    const lower = { ...at(base, 0, 0, 0), nonStackable: true };
+    expect(checkStackingWithCoords(boxOf(lower), [lower, placed])).toBe(true);
+  });
+
+  it('never loads anything on top of non-stackable cargo', () => {
+    const result = optimizeLoad([row({ quantity: 20, nonStackable: true })], BOX, FAST);
+    const loaded = loadedIn(result, BOX);
+    expect(loaded).toHaveLength(12);
+    expect(loaded.every(i => i.position[1] === 0)).toBe(true);
+  });
+
+  it('respects the load-bearing limit of lower items', () => {
+    const result = optimizeLoad([row({ quantity: 30, maxStackLoad: 100 })], BOX, FAST);
+    const analysis = computeStackAnalysis(loadedIn(result, BOX));
+    for (const item of loadedIn(result, BOX)) expect(analysis.loads[item.id]).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('support', () => {
+  const [lower, upper] = createCargoGroups([row({ quantity: 2 })]);
+  const planned = [{ id: 'C1', config: BOX }, { id: 'C2', config: BOX }];
+  const issuesOf = (items: CargoItem[]) => Object.fromEntries(validatePlan(items, planned).map(i => [i.id, i.issues]));
+
+  it('flags items that float or hang mostly over the edge', () => {
+    const base = { ...at(lower, 0, 0, 0), containerId: 'C1' };
+    expect(issuesOf([base, { ...at(upper, 0, 1000, 0), containerId: 'C1' }])[upper.id]).toEqual([]);
+    expect(issuesOf([base, { ...at(upper, 0, 1200, 0), containerId: 'C1' }])[upper.id]).toEqual(['UNSUPPORTED']);
+    expect(issuesOf([base, { ...at(upper, 500, 1000, 0), containerId: 'C1' }])[upper.id]).toEqual(['UNSUPPORTED']);
+  });
+
+  it('rejects drag positions without enough support', () => {
+    const target = { x: 0, y: 1000, z: 0, l: 1000, h: 1000, w: 1000, id: upper.id };
+    expect(checkSupportWithCoords(target, [at(lower, 0, 0, 0)])).toBe(false);
+    expect(checkSupportWithCoords({ ...target, x: 500 }, [at(lower, 0, 0, 0)])).toBe(true);
+    expect(checkSupportWithCoords({ ...target, y: 0 }, [])).toBe(false);
+  });
+
+  it('does not let items in another container hold each other up', () => {
+    const items = [{ ...at(lower, 0, 0, 0), containerId: 'C1' }, { ...at(upper, 0, 1000, 0), containerId: 'C2' }];
+    expect(issuesOf(items)[upper.id]).toEqual(['UNSUPPORTED']);
+  });
+
+  it('counts the top of an obstacle as a support surface', () => {
+    const container = { ...BOX, obstacles: [{ position: [0, 0, 0] as [number, number, number], dimensions: { length: 1000, width: 1000, height: 500 } }] };
+    const target = { x: 0, y: 500, z: 0, l: 1000, h: 1000, w: 1000, id: upper.id };
+    expect(checkSupportWithCoords(target, [], container)).toBe(false);
+    expect(checkSupportWithCoords(target, [])).toBe(true);
+  });
+
+  it('produces plans with every loaded item supported', () => {
+    const result = optimizeLoad([row({ quantity: 12 }), row({ subDrawingNo: 'B', length: 600, width: 400, height: 300, quantity: 40 })], BOX, FAST);
+    const checked = validatePlan(loadedIn(result, BOX).map(i => ({ ...i, containerId: 'C1' })), planned);
+    expect(checked.filter(i => i.issues!.includes('UNSUPPORTED'))).toEqual([]);
+  });
+});
+
+describe('fleet planning', () => {
+  // SMALL 装 8 件 1m³ 货物，LARGE 装 24 件
+  const SMALL: ContainerConfig = { ...BOX, name: 'Small', length: 2000, cost: 1 };
+  const LARGE: ContainerConfig = { ...BOX, name: 'Large', cost: 4 };
+  const cubes = (quantity: number) => createCargoGroups([row({ quantity })]);
+
+  it('opens another container when the first one is full', () => {
+    const plan = planFleet(cubes(12), [{ container: SMALL, count: 3 }], FAST);
+    expect(plan.containers.map(c => c.id)).toEqual(['C1', 'C2']);
+    expect(plan.items.filter(i => i.containerId === 'C1')).toHaveLength(8);
+    expect(plan.items.every(i => i.containerId)).toBe(true);
+  });
+
+  it('chooses container types by the fleet objective', () => {
+    const fleet = [{ container: LARGE, count: 1 }, { container: SMALL, count: 3 }];
+    const typesFor = (fleetObjective: 'FEWEST' | 'CHEAPEST') =>
+      planFleet(cubes(30), fleet, { ...FAST, fleetObjective }).containers.map(c => c.config.name);
+    expect(typesFor('FEWEST')).toEqual(['Large', 'Small']);
+    expect(typesFor('CHEAPEST')).toEqual(['Small', 'Large']);
+  });
+
+  it('stages what is left when the fleet runs out', () => {
+    const plan = planFleet(cubes(10), [{ container: SMALL, count: 1 }], FAST);
+    const staged = plan.items.filter(i => !i.containerId);
+    expect(staged).toHaveLength(2);
+    expect(staged.every(i => i.stagingReason === 'NO_SPACE' && getItemZone(i, SMALL) === 'STAGING')).toBe(true);
+  });
+});
+
+describe('delivery stops', () => {
+  const planned = [{ id: 'C1', config: BOX }];
+  const [first, second] = createCargoGroups([row({ quantity: 2 })]);
+  const blockedOf = (items: CargoItem[]) => validatePlan(items.map(i => ({ ...i, containerId: 'C1' })), planned)
+    .filter(i => i.issues!.includes('BLOCKED'))
+    .map(i => i.id);
+
+  it('flags cargo that a later stop blocks from the door or from above', () => {
+    // 箱门在 X = length 一端
+    expect(blockedOf([{ ...at(first, 0, 0, 0), stop: 1 }, { ...at(second, 1000, 0, 0), stop: 2 }])).toEqual([first.id]);
+    expect(blockedOf([{ ...at(first, 1000, 0, 0), stop: 1 }, { ...at(second, 0, 0, 0), stop: 2 }])).toEqual([]);
+    expect(blockedOf([{ ...at(first, 0, 0, 0), stop: 1 }, { ...at(second, 0, 1000, 0), stop: 2 }])).toEqual([first.id]);
+    expect(blockedOf([{ ...at(first, 0, 0, 0), stop: 1 }, { ...at(second, 1000, 0, 1000), stop: 2 }])).toEqual([]);
+  });
+
+  it('loads later stops deeper so nothing is blocked', () => {
+    const result = optimizeLoad([
+      row({ subDrawingNo: 'S1', quantity: 8, stop: 1 }),
+      row({ subDrawingNo: 'S2', quantity: 8, stop: 2 }),
+      row({ subDrawingNo: 'S3', quantity: 8, stop: 3 })
+    ], BOX, FAST);
+    const loaded = loadedIn(result, BOX);
+    expect(loaded).toHaveLength(24);
+    expect(blockedOf(loaded)).toEqual([]);
+    const deepest = (stop: number) => Math.min(...loaded.filter(i => i.stop === stop).map(i => i.position[0]));
+    expect(deepest(1)).toBeGreaterThan(deepest(2));
+    expect(deepest(2)).toBeGreaterThan(deepest(3));
+  });
+});
+
+describe('centre of gravity', () => {
+  const window = { longitudinal: 0.1, lateral: 0.05 };
+
+  it('reports the offset from the container centre', () => {
+    const [item] = createCargoGroups([row()]);
+    const stats = computeLoadStats([at(item, 0, 0, 700)], BOX, window);
+    expect(stats.cogOffset.x).toBeCloseTo((500 - 3000) / 6000);
+    expect(stats.cogOffset.z).toBeCloseTo(0);
+    expect(stats.cogStatus).toBe('OUT_OF_WINDOW');
+    expect(computeLoadStats([at(item, 2500, 0, 700)], BOX, window).cogStatus).toBe('OK');
+  });
+
+  it('shifts the whole load towards the centre without changing relative positions', () => {
+    const [a, b] = createCargoGroups([row({ quantity: 2 })]);
+    const items = [at(a, 0, 0, 700), at(b, 0, 1000, 700)];
+    const balanced = balanceLoad(items, BOX, window);
+    expect(computeLoadStats(balanced, BOX, window).cogStatus).toBe('OK');
+    expect(balanced[1].position[0] - balanced[0].position[0]).toBe(0);
+    expect(balanced[1].position[1] - balanced[0].position[1]).toBe(1000);
+  });
+
+  it('mirrors load sections across the centre line when shifting cannot help', () => {
+    // 满宽的轻货挡住了横向平移，只能把一段重货镜像到另一侧
+    const [a, b, c] = createCargoGroups([row({ quantity: 3, weight: 1000 })]);
+    const [full] = createCargoGroups([row({ subDrawingNo: 'FULL', width: 2400, weight: 100 })]);
+    const items = [at(a, 0, 0, 0), at(b, 1000, 0, 0), at(c, 2000, 0, 0), at(full, 3000, 0, 0)];
+    const before = computeLoadStats(items, BOX, window).cogOffset.z;
+    const balanced = balanceLoad(items, BOX, window);
+    expect(Math.abs(computeLoadStats(balanced, BOX, window).cogOffset.z)).toBeLessThan(Math.abs(before));
+    expect(balanced.some(i => i.position[2] === 1400)).toBe(true);
+    const planned = [{ id: 'C1', config: BOX }];
+    expect(validatePlan(balanced.map(i => ({ ...i, containerId: 'C1' })), planned).every(i => i.isValid)).toBe(true);
+  });
+});
+
+describe('seeded search', () => {
+  const rows = [
+    row({ quantity: 6 }),
+    row({ subDrawingNo: 'B', length: 1200, width: 800, height: 600, quantity: 10 }),
+    row({ subDrawingNo: 'C', length: 500, width: 400, height: 700, quantity: 15 })
+  ];
+  const layout = (items: CargoItem[]) => items.map(i => `${i.drawingNo}|${i.subDrawingNo}|${i.orientation}@${i.position.join(',')}`).sort();
+
+  it('reproduces the same plan for the same seed', () => {
+    expect(layout(optimizeLoad(rows, BOX, { seed: 123, searchIterations: 12 })))
+      .toEqual(layout(optimizeLoad(rows, BOX, { seed: 123, searchIterations: 12 })));
+  });
+});
+
+describe('placement policies', () => {
+  // 重心窗口放到最大，不做平衡平移，直接比较各策略的原始摆放
+  const WIDE = { longitudinal: 1, lateral: 1 };
+  const mixed = [
+    row({ quantity: 6 }),
+    row({ subDrawingNo: 'B', length: 1200, width: 800, height: 600, quantity: 20 }),
+    row({ subDrawingNo: 'C', length: 500, width: 400, height: 700, quantity: 30 })
+  ];
+
+  it('builds walls from the far end or layers from the floor', () => {
+    const cubes = [row({ quantity: 4 })];
+    const wall = loadedIn(optimizeLoad(cubes, BOX, { ...FAST, cogWindow: WIDE, placementPolicy: 'WALL_BUILDING' }), BOX);
+    expect(wall.every(i => i.position[0] === 0)).toBe(true);
+    const floor = loadedIn(optimizeLoad(cubes, BOX, { ...FAST, cogWindow: WIDE, placementPolicy: 'BOTTOM_LEFT' }), BOX);
+    expect(floor.every(i => i.position[1] === 0)).toBe(true);
+  });
+
+  it('produces overlap-free plans with every policy', () => {
+    for (const placementPolicy of PLACEMENT_POLICY_IDS) {
+      const loaded = loadedIn(optimizeLoad(mixed, BOX, { ...FAST, placementPolicy }), BOX);
+      expect(loaded.length).toBeGreaterThan(0);
+      expect(loaded.filter(i => checkCollision(i, loaded, BOX))).toEqual([]);
+    }
+  });
+
+  it('keeps the best policy when racing them all', () => {
+    const util = (placementPolicy: PlacementPolicyId | 'RACE') =>
+      computeLoadStats(loadedIn(optimizeLoad(mixed, BOX, { searchIterations: 0, cogWindow: WIDE, placementPolicy }), BOX), BOX).util;
+    const race = util('RACE');
+    for (const id of PLACEMENT_POLICY_IDS) expect(race).toBeGreaterThanOrEqual(util(id) - 1e-9);
+  });
+});
+
+describe('zones', () => {
+  const [item] = createCargoGroups([row()]);
+
+  it('tells loaded, staged and out-of-bounds items apart', () => {
+    expect(getItemZone(at(item, 0, 0, 0), BOX)).toBe('CONTAINER');
+    expect(getItemZone(at(item, 5000, 1400, 1400), BOX)).toBe('CONTAINER');
+    expect(getItemZone(at(item, 0, 0, 3000), BOX)).toBe('STAGING');
+    // 伸出箱门、顶穿箱顶、骑在侧壁上
+    expect(getItemZone(at(item, 5500, 0, 0), BOX)).toBe('OUT_OF_BOUNDS');
+    expect(getItemZone(at(item, 0, 1800, 0), BOX)).toBe('OUT_OF_BOUNDS');
+    expect(getItemZone(at(item, 0, 0, 2000), BOX)).toBe('OUT_OF_BOUNDS');
+  });
+
+  it('flags loaded items that stick out of their container', () => {
+    const planned = [{ id: 'C1', config: BOX }];
+    const [outside, staged] = validatePlan([{ ...at(item, 5500, 0, 0), containerId: 'C1' }, at(item, 0, 0, 3000)], planned);
+    expect(outside.issues).toEqual(['OUT_OF_BOUNDS']);
+    expect(outside.isValid).toBe(false);
+    expect(staged.isValid).toBe(true);
+  });
+});
+
+describe('container interior', () => {
+  // 箱头一道满宽的台阶（如冷机），货物不能进入，但可以压在上面
+  const step = { position: [0, 0, 0] as [number, number, number], dimensions: { length: 1000, width: 2400, height: 500 } };
+  const withStep: ContainerConfig = { ...BOX, obstacles: [step] };
+
+  it('keeps cargo out of obstacles and excludes them from the usable volume', () => {
+    const result = optimizeLoad([row({ quantity: 24 })], withStep, FAST);
+    const loaded = loadedIn(result, withStep);
+    expect(loaded.length).toBeGreaterThan(0);
+    expect(loaded.filter(i => checkCollision(i, [], withStep))).toEqual([]);
+    expect(getUsableVolume(withStep)).toBe(6000 * 2400 * 2400 - 1000 * 2400 * 500);
+  });
+
+  it('stages cargo that cannot pass the door in any allowed pose', () => {
+    const narrowDoor: ContainerConfig = { ...BOX, door: { width: 2000, height: 2000 } };
+    const result = optimizeLoad([
+      row({ subDrawingNo: 'BIG', length: 2200, width: 2200, height: 2200 }),
+      row({ subDrawingNo: 'TALL', length: 1000, width: 800, height: 2200 })
+    ], narrowDoor, FAST);
+    const big = result.find(i => i.subDrawingNo === 'BIG')!;
+    const tall = result.find(i => i.subDrawingNo === 'TALL')!;
+    expect(big.stagingReason).toBe('DOOR_CLEARANCE');
+    expect(getItemZone(tall, narrowDoor)).toBe('CONTAINER');
+    expect(tall.dimensions.height).toBeLessThanOrEqual(2000);
+  });
+
+  it('lets cargo stick out by the configured allowance', () => {
+    const tall = [row({ height: 2800, orientation: 'UPRIGHT' })];
+    expect(loadedIn(optimizeLoad(tall, BOX, FAST), BOX)).toHaveLength(0);
+    const openTop: ContainerConfig = { ...BOX, allowance: { top: 600 } };
+    expect(loadedIn(optimizeLoad(tall, openTop, FAST), openTop)).toHaveLength(1);
+  });
+});
+
+describe('pinned items', () => {
+  it('keeps pinned items in place and counts their weight', () => {
+    const container = { ...BOX, maxWeight: 300 };
+    const [pinned, ...rest] = createCargoGroups([row({ quantity: 4 })]);
+    const items = [{ ...pinned, position: [5000, 0, 1400] as [number, number, number], pinned: true }, ...rest];
+    const result = autoPack(items, container, FAST);
+    expect(result.find(i => i.id === pinned.id)!.position).toEqual([5000, 0, 1400]);
+    expect(totalWeight(loadedIn(result, container))).toBeLessThanOrEqual(300);
+  });
+
+  it('re-packs the rest of the fleet around pinned items', () => {
+    const [pinned, ...rest] = createCargoGroups([row({ quantity: 10 })]);
+    const items = [{ ...at(pinned, 2500, 0, 700), containerId: 'C1', pinned: true }, ...rest];
+    const plan = planFleet(items, [{ container: BOX, count: 1 }], FAST, {}, [{ id: 'C1', config: BOX }]);
+    const kept = plan.items.find(i => i.id === pinned.id)!;
+    expect(kept.position).toEqual([2500, 0, 700]);
+    expect(kept.containerId).toBe('C1');
+    const loaded = plan.items.filter(i => i.containerId === 'C1');
+    expect(loaded).toHaveLength(10);
+    expect(loaded.filter(i => checkCollision(i, loaded, BOX))).toEqual([]);
+  });
+});
+
+describe('composite groups', () => {
+  it('assembles kits from rows with a kit quantity', () => {
+    const groups = createCargoGroups([
+      row({ mainDrawingNo: 'K', subDrawingNo: 'K-1', length: 500, width: 500, height: 500, quantity: 2, weight: 10, kitQuantity: 2 }),
+      row({ mainDrawingNo: 'K', subDrawingNo: 'K-2', length: 1000, width: 500, height: 500, quantity: 1, weight: 30, kitQuantity: 2, maxStackLoad: 50 })
+    ]);
+    expect(groups).toHaveLength(2);
+    for (const group of groups) {
+      expect(group.isGroup).toBe(true);
+      expect(group.subItems).toHaveLength(3);
+      expect(group.weight).toBe(50);
+      expect(group.maxStackLoad).toBe(50);
+    }
+  });
+
+  it('combines items and splits them back where they were', () => {
+    const [a, b] = createCargoGroups([row({ quantity: 2 })]);
+    const items = [{ ...at(a, 1000, 0, 0), containerId: 'C1' }, { ...at(b, 1000, 1000, 0), containerId: 'C1', pinned: true }];
+    const group = combineItems(items);
+    expect(group.position).toEqual([1000, 0, 0]);
+    expect(group.dimensions).toEqual({ length: 1000, width: 1000, height: 2000 });
+    expect(group.pinned).toBe(true);
+    expect(group.containerId).toBe('C1');
+    const parts = splitGroup(group);
+    expect(parts.map(p => [p.id, p.position])).toEqual(items.map(i => [i.id, i.position]));
+    expect(parts.every(p => p.pinned)).toBe(true);
+  });
+
+  it('turns the parts together with the group', () => {
+    const [a, b] = createCargoGroups([row({ quantity: 2 })]);
+    const turned = rotateItemYaw(combineItems([at(a, 0, 0, 0), at(b, 1000, 0, 0)]))!;
+    expect(turned.dimensions).toEqual({ length: 1000, width: 2000, height: 1000 });
+    const parts = splitGroup(turned);
+    expect(parts.map(p => p.position[0])).toEqual([0, 0]);
+    expect(parts.map(p => p.position[2]).sort()).toEqual([0, 1000]);
+  });
+});
+
+describe('palletization', () => {
+  const EUR: PalletTemplate = { name: 'EUR', length: 1200, width: 800, deckHeight: 144, maxHeight: 1000, maxWeight: 500, tareWeight: 25 };
+  const cartons = (quantity: number, patch: Partial<ImportedRow> = {}) =>
+    createCargoGroups([row({ length: 400, width: 400, height: 300, weight: 20, quantity, ...patch })]);
+
+  it('fills pallets within the height and weight limits', () => {
+    const { pallets, leftover } = palletizeItems(cartons(30), EUR);
+    expect(leftover).toEqual([]);
+    expect(pallets.map(p => getPalletContents(p).length)).toEqual([12, 12, 6]);
+    for (const pallet of pallets) {
+      expect(pallet.dimensions.height).toBeLessThanOrEqual(EUR.maxHeight);
+      expect(pallet.weight).toBe(getPalletContents(pallet).length * 20 + EUR.tareWeight);
+      expect(pallet.orientationRule).toBe('UPRIGHT');
+    }
+    const heavy = palletizeItems(cartons(30, { weight: 100 }), EUR).pallets;
+    expect(heavy.map(p => getPalletContents(p).length)).toEqual([5, 5, 5, 5, 5, 5]);
+  });
+
+  it('leaves cartons that do not fit on the pallet', () => {
+    const { pallets, leftover } = palletizeItems(cartons(1, { length: 1500 }), EUR);
+    expect(pallets).toEqual([]);
+    expect(leftover).toHaveLength(1);
+  });
+
+  it('removes the pallet and lowers the cartons when a pallet is split', () => {
+    const [pallet] = palletizeItems(cartons(2), EUR).pallets;
+    const parts = splitGroup(at(pallet, 0, 0, 0));
+    expect(parts).toHaveLength(2);
+    expect(parts.every(p => p.position[1] === 0)).toBe(true);
+    expect(splitGroup(pallet, true)).toHaveLength(3);
+  });
+});
+
+describe('cylinders', () => {
+  const drum = row({ length: 600, width: 600, height: 1000, shape: 'CYLINDER_UPRIGHT' });
+
+  it('counts the real volume of round cargo', () => {
+    const [item] = createCargoGroups([drum]);
+    expect(getItemVolume(item)).toBeCloseTo(Math.PI * 300 * 300 * 1000);
+    const [coil] = createCargoGroups([row({ length: 1000, width: 800, height: 600, shape: 'CYLINDER_LYING' })]);
+    expect(coil.dimensions).toEqual({ length: 1000, width: 800, height: 800 });
+    expect(getItemVolume(coil)).toBeCloseTo(Math.PI * 400 * 400 * 1000);
+  });
+
+  it('lets drums overlap at the corners of their bounding boxes', () => {
+    const [a, b] = createCargoGroups([{ ...drum, quantity: 2 }]);
+    expect(checkCollision(at(b, 500, 0, 400), [at(a, 0, 0, 0)], BOX)).toBe(false);
+    expect(checkCollision(at(b, 300, 0, 300), [at(a, 0, 0, 0)], BOX)).toBe(true);
+    const [boxA, boxB] = createCargoGroups([row({ length: 600, width: 600, quantity: 2 })]);
+    expect(checkCollision(at(boxB, 500, 0, 400), [at(boxA, 0, 0, 0)], BOX)).toBe(true);
+  });
+
+  it('nests upright drums in a hexagonal pattern', () => {
+    // 两排方阵需要 1200 宽，错位嵌套 600 * (1 + √3 / 2) ≈ 1120 即可放下两排
+    const narrow: ContainerConfig = { name: 'Narrow', length: 3000, width: 1120, height: 1000, maxWeight: 0 };
+    const loaded = loadedIn(optimizeLoad([{ ...drum, quantity: 10 }], narrow, FAST), narrow);
+    expect(loaded.length).toBeGreaterThan(5);
+    expect(loaded.filter(i => checkCollision(i, loaded, narrow))).toEqual([]);
+  });
+});
+
+describe('objective', () => {
+  it('loads must-ship cargo before optional cargo for later stops', () => {
+    const container = { ...BOX, maxWeight: 300 };
+    const result = optimizeLoad([
+      row({ subDrawingNo: 'MUST', quantity: 2, stop: 1, mandatory: true }),
+      row({ subDrawingNo: 'OPT', quantity: 4, stop: 2 })
+    ], container, FAST);
+    const loaded = loadedIn(result, container);
+    expect(loaded.filter(i => i.mandatory)).toHaveLength(2);
+    expect(loaded).toHaveLength(3);
+  });
+
+  it('reports must-ship cargo that could not be loaded as an error', () => {
+    const container = { ...BOX, maxWeight: 150 };
+    const result = optimizeLoad([row({ subDrawingNo: 'MUST', quantity: 2, mandatory: true })], container, FAST);
+    const missing = result.filter(i => i.issues!.includes('MANDATORY_UNLOADED'));
+    expect(missing).toHaveLength(1);
+    expect(missing[0].isValid).toBe(false);
+  });
+
+  it('ranks plans by the weighted objective', () => {
+    const container = { ...BOX, maxWeight: 300 };
+    const rows = [
+      row({ subDrawingNo: 'BULKY', quantity: 3, value: 1 }),
+      row({ subDrawingNo: 'SMALL', length: 500, width: 500, height: 500, quantity: 3, value: 100, priority: 5 })
+    ];
+    const loadedBy = (objective: ObjectiveWeights) => loadedIn(optimizeLoad(rows, container, { ...FAST, objective }), container);
+    const sum = (items: CargoItem[], of: (item: CargoItem) => number) => items.reduce((total, i) => total + of(i), 0);
+    const byVolume = loadedBy(DEFAULT_OBJECTIVE);
+    const byValue = loadedBy({ ...DEFAULT_OBJECTIVE, volume: 0, value: 1 });
+    expect(sum(byVolume, getItemVolume)).toBeGreaterThan(sum(byValue, getItemVolume));
+    expect(sum(byValue, i => i.value || 0)).toBeGreaterThan(sum(byVolume, i => i.value || 0));
+    const byPriority = loadedBy({ ...DEFAULT_OBJECTIVE, volume: 0, priority: 1 });
+    expect(byPriority.map(i => i.subDrawingNo)).toEqual(['SMALL', 'SMALL', 'SMALL']);
+  });
+});
+
+describe('alternative plans', () => {
+  const rows = [
+    row({ quantity: 6 }),
+    row({ subDrawingNo: 'B', length: 1200, width: 800, height: 600, quantity: 10 }),
+    row({ subDrawingNo: 'C', length: 500, width: 400, height: 700, quantity: 15 })
+  ];
+  const layout = (items: CargoItem[]) => items.map(i => `${i.subDrawingNo}|${i.orientation}@${i.position.join(',')}|${i.containerId}`).sort().join(';');
+
+  it('keeps distinct runner-up plans, best first', () => {
+    const plan = optimizeFleet(rows, [{ container: BOX, count: 1 }], { ...FAST, searchIterations: 12, alternativePlans: 3 });
+    const alternatives = plan.alternatives!;
+    expect(alternatives.length).toBeGreaterThan(0);
+    expect(alternatives.length).toBeLessThanOrEqual(2);
+    const layouts = [plan, ...alternatives].map(p => layout(p.items));
+    expect(new Set(layouts).size).toBe(layouts.length);
+    for (const alt of alternatives) {
+      expect(summarizePlan(alt).util).toBeLessThanOrEqual(summarizePlan(plan).util + 1e-9);
+      expect(alt.items).toHaveLength(plan.items.length);
+    }
+  });
+
+  it('keeps no alternatives by default', () => {
+    expect(optimizeFleet(rows, [{ container: BOX, count: 1 }], FAST).alternatives).toEqual([]);
+  });
+});
+
+describe('securing', () => {
+  const bar = (quantity: number, width: number = 1000) => createCargoGroups([row({ length: 6000, width, quantity })]);
+
+  it('fills narrow side gaps with airbags', () => {
+    const [a, b] = bar(2);
+    const analysis = analyzeVoids([at(a, 0, 0, 0), at(b, 0, 0, 1200)], BOX);
+    expect(analysis.voidVolume).toBe(6000 * 1000 * 400);
+    expect(analysis.voids.every(v => v.treatment === 'AIRBAG')).toBe(true);
+    expect(analysis.materials.map(m => m.kind)).toEqual(['AIRBAG']);
+    expect(analysis.lashingRows).toEqual([]);
+  });
+
+  it('uses dunnage for wide gaps and lashes rows open to the door', () => {
+    const [cube] = createCargoGroups([row({ weight: 3000 })]);
+    const analysis = analyzeVoids([at(cube, 0, 0, 0)], BOX);
+    expect(analysis.voids.some(v => v.treatment === 'DUNNAGE')).toBe(true);
+    expect(analysis.lashingRows).toEqual([expect.objectContaining({ x: 1000, itemIds: [cube.id], straps: 2 })]);
+    expect(analysis.materials.map(m => m.kind)).toEqual(['DUNNAGE', 'LASHING']);
+  });
+
+  it('does not count obstacles as voids', () => {
+    const [item] = bar(1);
+    const wall = { position: [0, 0, 1400] as [number, number, number], dimensions: { length: 6000, width: 1000, height: 1000 } };
+    expect(analyzeVoids([at(item, 0, 0, 0)], BOX).voidVolume).toBe(6000 * 1000 * 1400);
+    expect(analyzeVoids([at(item, 0, 0, 0)], { ...BOX, obstacles: [wall] }).voidVolume).toBe(6000 * 1000 * 400);
+  });
+
+  it('adds up materials across containers', () => {
+    expect(mergeSecuringMaterials([
+      [{ kind: 'AIRBAG', quantity: 2, unit: 'pcs' }, { kind: 'DUNNAGE', quantity: 0.25, unit: 'm3' }],
+      [{ kind: 'DUNNAGE', quantity: 0.5, unit: 'm3' }]
+    ])).toEqual([{ kind: 'AIRBAG', quantity: 2, unit: 'pcs' }, { kind: 'DUNNAGE', quantity: 0.75, unit: 'm3' }]);
+  });
+});
+
+describe('loading steps', () => {
+  const cubes = (quantity: number) => createCargoGroups([row({ quantity })]);
+  const idsOf = (steps: LoadingStep[]) => steps.map(s => s.entries.map(e => e.item.id));
+
+  it('loads from the far end to the door, bottom tier first', () => {
+    const [upper, far, lower] = cubes(3);
+    const steps = planLoadingSteps([at(upper, 0, 1000, 0), at(far, 2400, 0, 0), at(lower, 0, 0, 0)]);
+    expect(idsOf(steps)).toEqual([[lower.id, upper.id], [far.id]]);
+    expect(steps[0].entries.map(e => e.tier)).toEqual([1, 2]);
+    expect(steps[0]).toMatchObject({ index: 1, depthFrom: 0, depthTo: 1000 });
+  });
+
+  it('never loads an item before the cargo it rests on', () => {
+    // 上层货物起点更靠里，但要等下层货物装完
+    const [base, top] = cubes(2);
+    const steps = planLoadingSteps([at(top, 1000, 1000, 0), at(base, 1300, 0, 0)]);
+    expect(idsOf(steps).flat()).toEqual([base.id, top.id]);
+  });
+
+  it('splits a crowded band into several steps', () => {
+    const items = cubes(5).map((item, i) => at(item, 0, 0, i * 1000));
+    expect(planLoadingSteps(items, 1200, 2).map(s => s.entries.length)).toEqual([2, 2, 1]);
+  });
+});
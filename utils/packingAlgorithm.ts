@@ -1,4 +1,6 @@
-import { CargoItem, Dimensions, ImportedRow } from '../types';
+import { createRng, deriveSeed } from './random';
+import { createSpatialIndex, SpatialIndex, SpatialQuery } from './spatialIndex';
+import { CargoItem, CargoShape, CogWindow, ContainerConfig, ContainerObstacle, Dimensions, FleetEntry, FleetObjective, ImportedRow, ItemZone, ObjectiveWeights, Orientation, OrientationRule, PalletTemplate, PlacementPolicyId, PlanIssue, PlannedContainer, SolverOptions, SubItem } from '../types';
 
 // --- 颜色配置 ---
 // 用于给不同类型的货物分配醒目的颜色，方便视觉区分
@@ -19,10 +21,18 @@ const getStringColor = (str: string) => {
   return DISTINCT_COLORS[index];
 };
 
+// 按卸货站点着色：站点越靠前颜色越暖，未指定站点为灰色
+const STOP_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
+
+export const getStopColor = (stop?: number): string => {
+  if (stop === undefined) return '#6b7280';
+  return STOP_COLORS[(Math.max(1, stop) - 1) % STOP_COLORS.length];
+};
+
 // --- 算法内部使用的类型定义 ---
 
 // Box 代表一个“空间块”。既可以是物体占用的空间，也可以是还未被填充的“剩余自由空间”
-interface Box {
+export interface Box {
   x: number; // 起点 X 坐标 (长度方向)
   y: number; // 起点 Y 坐标 (高度方向)
   z: number; // 起点 Z 坐标 (宽度/深度方向)
@@ -31,6 +41,55 @@ interface Box {
   w: number; // Width  (Z轴跨度)
 }
 
+// --- 箱体内部结构 (Irregular Interiors) ---
+
+/**
+ * 装载包络：集装箱内部空间，加上开顶箱 / 框架箱允许货物伸出的部分
+ */
+export const getLoadingEnvelope = (container: ContainerConfig): Box => {
+  const top = container.allowance?.top || 0;
+  const side = container.allowance?.side || 0;
+  const end = container.allowance?.end || 0;
+  return {
+    x: -end, y: 0, z: -side,
+    l: container.length + end * 2, h: container.height + top, w: container.width + side * 2
+  };
+};
+
+const obstacleToBox = (obstacle: ContainerObstacle): Box => ({
+  x: obstacle.position[0], y: obstacle.position[1], z: obstacle.position[2],
+  l: obstacle.dimensions.length, h: obstacle.dimensions.height, w: obstacle.dimensions.width
+});
+
+export const getObstacleBoxes = (container: ContainerConfig): Box[] => {
+  return (container.obstacles || []).map(obstacleToBox);
+};
+
+/**
+ * 以给定姿态能否通过箱门（未配置箱门开口时不限制）
+ */
+export const fitsThroughDoor = (dims: Dimensions, container: ContainerConfig): boolean => {
+  return !container.door || (dims.width <= container.door.width && dims.height <= container.door.height);
+};
+
+/**
+ * 可用容积 (mm³)：箱内容积扣除障碍物，用于计算空间利用率
+ */
+export const getUsableVolume = (container: ContainerConfig): number => {
+  const obstacleVol = getObstacleBoxes(container).reduce((sum, o) => sum + o.l * o.h * o.w, 0);
+  return Math.max(0, container.length * container.width * container.height - obstacleVol);
+};
+
+/**
+ * 求解器的初始剩余空间：整个装载包络减去障碍物
+ */
+const getInitialFreeSpaces = (container: ContainerConfig): Box[] => {
+  return getObstacleBoxes(container).reduce(
+    (spaces, obstacle) => cleanupSpaces(splitSpaces(spaces, obstacle)),
+    [getLoadingEnvelope(container)]
+  );
+};
+
 // --- 辅助函数 ---
 
 /**
@@ -38,9 +97,9 @@ interface Box {
  * 不依赖 CargoItem 对象，直接根据坐标和尺寸判断
  */
 export const checkCollisionWithCoords = (
-  target: { x: number, y: number, z: number, l: number, h: number, w: number, id: string },
+  target: { x: number, y: number, z: number, l: number, h: number, w: number, id: string, axis?: CylinderAxis },
   others: CargoItem[],
-  container: Dimensions
+  container: ContainerConfig
 ): boolean => {
   const ix1 = target.x;
   const iy1 = target.y;
@@ -50,31 +109,21 @@ export const checkCollisionWithCoords = (
   const iz2 = iz1 + target.w;
 
   // 1. 基础物理边界检查
-  // 只限制不能钻入地下 (y < 0) 或 跑到原点负方向 (x < 0, z < 0)
+  // 只限制不能钻入地下 (y < 0) 或 跑到装载包络的负方向 (允许超长 / 超宽时可以略小于 0)
   // **关键修改**: 移除了对 container.length/width/height 的上限检查
   // 这样允许物体在待装区(Staging Area)移动，或者被举高以便跨越其他物体
-  if (ix1 < 0 || iy1 < 0 || iz1 < 0) return true;
+  const envelope = getLoadingEnvelope(container);
+  if (ix1 < envelope.x || iy1 < 0 || iz1 < envelope.z) return true;
+
+  // 不能与箱内障碍物（轮拱、冷机等）重叠
+  const targetBox: Box = { x: ix1, y: iy1, z: iz1, l: target.l, h: target.h, w: target.w };
+  if (getObstacleBoxes(container).some(o => boxIntersect(o, targetBox))) return true;
   
   // 2. 检查与其他所有物体的重叠情况
+  // 使用 epsilon 容差防止浮点数精度问题导致的“接触即碰撞”；同轴圆柱按截面圆判断，允许错位嵌套
   for (const other of others) {
     if (other.id === target.id) continue; // 跳过自己
-    const ox1 = other.position[0];
-    const oy1 = other.position[1];
-    const oz1 = other.position[2];
-    const ox2 = ox1 + other.dimensions.length;
-    const oy2 = oy1 + other.dimensions.height;
-    const oz2 = oz1 + other.dimensions.width;
-
-    // AABB 重叠判定公式
-    // 使用 epsilon 容差防止浮点数精度问题导致的“接触即碰撞”
-    const epsilon = 1; 
-    const overlap = (
-      ix1 < ox2 - epsilon && ix2 > ox1 + epsilon &&
-      iy1 < oy2 - epsilon && iy2 > oy1 + epsilon &&
-      iz1 < oz2 - epsilon && iz2 > oz1 + epsilon
-    );
-
-    if (overlap) return true;
+    if (solidsOverlap(targetBox, target.axis, itemToBox(other), getCylinderAxis(other.shape, other.orientation))) return true;
   }
   return false;
 }
@@ -83,7 +132,7 @@ export const checkCollisionWithCoords = (
  * 碰撞检测 (AABB - Axis-Aligned Bounding Box)
  * 用于实时检测手动拖拽时，当前物体是否和容器边界或其物体重叠
  */
-export const checkCollision = (item: CargoItem, others: CargoItem[], container: Dimensions): boolean => {
+export const checkCollision = (item: CargoItem, others: CargoItem[], container: ContainerConfig): boolean => {
   return checkCollisionWithCoords({
     x: item.position[0],
     y: item.position[1],
@@ -91,7 +140,8 @@ export const checkCollision = (item: CargoItem, others: CargoItem[], container:
     l: item.dimensions.length,
     h: item.dimensions.height,
     w: item.dimensions.width,
-    id: item.id
+    id: item.id,
+    axis: getCylinderAxis(item.shape, item.orientation)
   }, others, container);
 };
 
@@ -154,12 +204,977 @@ export const getSnappingPosition = (
   return [newX, newY, newZ];
 };
 
+// --- 堆叠规则 (Stacking Rules) ---
+
+// 支撑关系：下方某个物品承担上方物品重量的比例（按接触面积分摊）
+interface SupportLink {
+  index: number;
+  share: number;
+}
+
+// 整个场景的堆叠受力分析结果
+export interface StackAnalysis {
+  loads: Record<string, number>; // 每个物品顶部承受的总重量 (kg)，包含间接压在上面的物品
+  supports: Record<string, { id: string, share: number }[]>; // 每个物品由哪些物品支撑
+  limits: Record<string, number>; // 每个物品顶部允许承受的最大重量 (kg)
+}
+
+/**
+ * 物品顶部允许承受的最大重量 (kg)
+ * 不可堆叠 / 只能放顶层的物品上方不允许有任何东西
+ */
+export const getStackLimit = (item: CargoItem): number => {
+  if (item.nonStackable || item.topOnly) return 0;
+  return item.maxStackLoad !== undefined && item.maxStackLoad >= 0 ? item.maxStackLoad : Infinity;
+};
+
+const itemToBox = (item: CargoItem): Box => ({
+  x: item.position[0], y: item.position[1], z: item.position[2],
+  l: item.dimensions.length, h: item.dimensions.height, w: item.dimensions.width
+});
+
+// 两个盒子在水平面 (XZ) 上的重叠面积
+const footprintOverlap = (a: Box, b: Box): number => {
+  const dx = Math.min(a.x + a.l, b.x + b.l) - Math.max(a.x, b.x);
+  const dz = Math.min(a.z + a.w, b.z + b.w) - Math.max(a.z, b.z);
+  return dx > 0 && dz > 0 ? dx * dz : 0;
+};
+
+/**
+ * 找出直接托住 box 的下方物品（顶面与 box 底面贴合且水平投影有重叠）
+ * 返回每个支撑物按接触面积分摊的重量比例；放在地面上时返回空数组
+ */
+const getSupportLinks = (box: Box, candidates: Box[]): SupportLink[] => {
+  if (box.y <= 1) return [];
+  const epsilon = 1;
+  const contacts: { index: number, area: number }[] = [];
+  let totalArea = 0;
+  candidates.forEach((c, index) => {
+    if (Math.abs(c.y + c.h - box.y) > epsilon) return;
+    const area = footprintOverlap(box, c);
+    if (area > 0) {
+      contacts.push({ index, area });
+      totalArea += area;
+    }
+  });
+  return contacts.map(c => ({ index: c.index, share: c.area / totalArea }));
+};
+
+// 底面最少需要有多大比例被地面或其他货物托住，低于此值视为悬空
+export const MIN_SUPPORT_RATIO = 0.7;
+
+/**
+ * 计算 box 底面被托住的面积比例 (0~1)
+ * 直接放在地面上为 1；悬在半空为 0
+ */
+const getSupportRatio = (box: Box, candidates: Box[]): number => {
+  if (box.y <= 1) return 1;
+  const epsilon = 1;
+  let supportedArea = 0;
+  for (const c of candidates) {
+    if (Math.abs(c.y + c.h - box.y) > epsilon) continue;
+    supportedArea += footprintOverlap(box, c);
+  }
+  return Math.min(1, supportedArea / (box.l * box.w));
+};
+
+/**
+ * 支撑检测（与 checkCollisionWithCoords 配合使用）
+ * 返回 true 表示放在该位置时底面支撑不足（会悬空或大半悬空）
+ * 传入 container 时，箱内障碍物的顶面也算作支撑面
+ */
+export const checkSupportWithCoords = (
+  target: { x: number, y: number, z: number, l: number, h: number, w: number, id: string },
+  others: CargoItem[],
+  container?: ContainerConfig,
+  minRatio: number = MIN_SUPPORT_RATIO
+): boolean => {
+  const boxes = [
+    ...(container ? getObstacleBoxes(container) : []),
+    ...others.filter(o => o.id !== target.id).map(itemToBox)
+  ];
+  return getSupportRatio({ x: target.x, y: target.y, z: target.z, l: target.l, h: target.h, w: target.w }, boxes) < minRatio;
+};
+
+/**
+ * 将一份重量沿支撑关系向下传递，累加到 extra 中
+ * 上层物品的重量会经由中间物品一直传到最底层
+ */
+const propagateLoad = (
+  links: SupportLink[],
+  weight: number,
+  supportsOf: SupportLink[][],
+  extra: Map<number, number>
+) => {
+  for (const link of links) {
+    const part = weight * link.share;
+    extra.set(link.index, (extra.get(link.index) || 0) + part);
+    propagateLoad(supportsOf[link.index], part, supportsOf, extra);
+  }
+};
+
+/**
+ * 计算当前场景中每个物品顶部的受力情况
+ * 传入空间索引时，只在每个物品附近查找支撑物（索引中不属于 items 的物品会被忽略）
+ */
+export const computeStackAnalysis = (items: CargoItem[], index?: SpatialIndex): StackAnalysis => {
+  const boxes = items.map(itemToBox);
+  const positionOf = new Map(items.map((item, i) => [item.id, i]));
+  const supportsOf = boxes.map(box => {
+    if (!index) return getSupportLinks(box, boxes);
+    const nearby = index.query(box, 2)
+      .map(o => positionOf.get(o.id))
+      .filter((i): i is number => i !== undefined);
+    return getSupportLinks(box, nearby.map(i => boxes[i])).map(l => ({ index: nearby[l.index], share: l.share }));
+  });
+  const loads = new Map<number, number>();
+  items.forEach((item, i) => propagateLoad(supportsOf[i], item.weight, supportsOf, loads));
+
+  const analysis: StackAnalysis = { loads: {}, supports: {}, limits: {} };
+  items.forEach((item, i) => {
+    analysis.loads[item.id] = loads.get(i) || 0;
+    analysis.supports[item.id] = supportsOf[i].map(l => ({ id: items[l.index].id, share: l.share }));
+    analysis.limits[item.id] = getStackLimit(item);
+  });
+  return analysis;
+};
+
+/**
+ * 堆叠规则检测（与 checkCollisionWithCoords 配合使用）
+ * 返回 true 表示放在该位置会违反堆叠规则：
+ * - 压在不可堆叠 / 只能放顶层的物品上
+ * - 自身不可堆叠，却被塞到了其他物品下面
+ * - 下方物品（含间接支撑的物品）承重超限
+ * analysis 应基于不含 target 的其他物品计算，未传入时现场计算；
+ * 传入 analysis 时 others 只需包含 target 附近的物品（如空间索引的查询结果）
+ */
+export const checkStackingWithCoords = (
+  target: { x: number, y: number, z: number, l: number, h: number, w: number, id: string },
+  others: CargoItem[],
+  analysis?: StackAnalysis
+): boolean => {
+  const self = others.find(o => o.id === target.id);
+  const rest = others.filter(o => o.id !== target.id);
+  const restBoxes = rest.map(itemToBox);
+  const targetBox: Box = { x: target.x, y: target.y, z: target.z, l: target.l, h: target.h, w: target.w };
+
+  // 自身不允许承重时，上方不能有物品
+  if (self && getStackLimit(self) === 0) {
+    const hasItemOnTop = restBoxes.some(b => Math.abs(b.y - (target.y + target.h)) <= 1 && footprintOverlap(b, targetBox) > 0);
+    if (hasItemOnTop) return true;
+  }
+
+  const links = getSupportLinks(targetBox, restBoxes);
+  if (links.length === 0) return false;
+  if (links.some(l => getStackLimit(rest[l.index]) === 0)) return true;
+
+  // 将自身重量沿支撑链向下传递，逐个检查承重
+  // 按 id 传递：间接支撑物不一定在 others 里，它们的受力与承重上限都来自 analysis
+  const stack = analysis || computeStackAnalysis(rest);
+  const extra = new Map<string, number>();
+  const push = (id: string, part: number) => {
+    extra.set(id, (extra.get(id) || 0) + part);
+    for (const s of stack.supports[id] || []) push(s.id, part * s.share);
+  };
+  const weight = self ? self.weight : 0;
+  links.forEach(l => push(rest[l.index].id, weight * l.share));
+
+  for (const [id, added] of extra) {
+    if ((stack.loads[id] || 0) + added > (stack.limits[id] ?? Infinity)) return true;
+  }
+  return false;
+};
+
+// --- 多站点卸货 (Multi-Stop / LIFO) ---
+// 箱门位于 X 正方向 (x = container.length)，先卸的站点应靠近箱门
+
+/**
+ * 判断 box 是否被 other 挡住而无法直接卸出：
+ * other 位于 box 与箱门之间（X 更大且 YZ 投影重叠），或者压在 box 上方
+ */
+const isBlockedBy = (box: Box, other: Box): boolean => {
+  const epsilon = 1;
+  const yOverlap = other.y < box.y + box.h - epsilon && other.y + other.h > box.y + epsilon;
+  const zOverlap = other.z < box.z + box.w - epsilon && other.z + other.w > box.z + epsilon;
+  const xOverlap = other.x < box.x + box.l - epsilon && other.x + other.l > box.x + epsilon;
+  if (yOverlap && zOverlap && other.x >= box.x + box.l - epsilon) return true;
+  return xOverlap && zOverlap && other.y >= box.y + box.h - epsilon;
+};
+
+// 两个物品都指定了站点，且 other 比 item 更晚卸货
+const isLaterStop = (item: CargoItem, other: CargoItem): boolean => {
+  return item.stop !== undefined && other.stop !== undefined && other.stop > item.stop;
+};
+
+/**
+ * 方案校验：逐个检查物品状态，写入 issues 并同步 isValid
+ * 在每次手动移动、自动排布或导入后调用，保证场景中的标红状态与实际摆放一致
+ * 传入 containers 时，还会检查已装物品是否完整落在所属集装箱内
+ * 支撑和卸货阻挡只查询空间索引中的邻近物品，几千件货物时也不必两两比较
+ */
+export const validatePlan = (items: CargoItem[], containers: PlannedContainer[] = []): CargoItem[] => {
+  const boxes = items.map(itemToBox);
+  const configById = new Map(containers.map(c => [c.id, c.config]));
+  const positionOf = new Map(items.map((item, i) => [item.id, i]));
+
+  // 不同集装箱的坐标互不相干：按所在集装箱（待装区为 ''）分别建立索引，并记录各组物品的最远端
+  const groups = new Map<string, CargoItem[]>();
+  items.forEach(item => {
+    const key = item.containerId || '';
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(item);
+  });
+  const indexes = new Map([...groups].map(([key, group]) => [key, createSpatialIndex(group)]));
+  const reach = new Map([...groups].map(([key, group]) => [key, group.reduce(
+    (far, i) => ({
+      x: Math.max(far.x, i.position[0] + i.dimensions.length),
+      y: Math.max(far.y, i.position[1] + i.dimensions.height),
+      stop: i.stop !== undefined ? Math.max(far.stop, i.stop) : far.stop
+    }),
+    { x: 0, y: 0, stop: -Infinity }
+  )]));
+  // 同组中与范围相交的其他物品（下标）
+  const nearby = (i: number, range: SpatialQuery): number[] =>
+    indexes.get(items[i].containerId || '')!.query(range, 1)
+      .map(o => positionOf.get(o.id)!)
+      .filter(j => j !== i);
+
+  return items.map((item, i) => {
+    const issues: PlanIssue[] = [];
+    // 已分配到集装箱的物品必须完整地落在该集装箱内
+    const config = item.containerId ? configById.get(item.containerId) : undefined;
+    if (config && getItemZone(item, config) !== 'CONTAINER') issues.push('OUT_OF_BOUNDS');
+    if (config && !fitsThroughDoor(item.dimensions, config)) issues.push('DOOR_CLEARANCE');
+    // 支撑物的顶面贴着物品底面，只需查询底面所在的薄层；障碍物顶面也能托住货物
+    const others = [
+      ...(config ? getObstacleBoxes(config) : []),
+      ...nearby(i, { ...boxes[i], h: 0 }).map(j => boxes[j])
+    ];
+    if (getSupportRatio(boxes[i], others) < MIN_SUPPORT_RATIO) issues.push('UNSUPPORTED');
+    // 卸货顺序：已装箱的物品不能被更晚卸货站点的货物挡住
+    // 挡路的物品只可能在物品通往箱门的通道里，或者在它正上方
+    const far = reach.get(item.containerId || '')!;
+    if (item.containerId && item.stop !== undefined && far.stop > item.stop) {
+      const box = boxes[i];
+      const candidates = new Set([
+        ...nearby(i, { ...box, l: Math.max(box.l, far.x - box.x) }),
+        ...nearby(i, { ...box, h: Math.max(box.h, far.y - box.y) })
+      ]);
+      const blocked = [...candidates].some(j => isLaterStop(item, items[j]) && isBlockedBy(box, boxes[j]));
+      if (blocked) issues.push('BLOCKED');
+    }
+    // 必须发运的货物被自动排布留在待装区（带有退回原因）视为错误
+    if (item.mandatory && !item.containerId && item.stagingReason) issues.push('MANDATORY_UNLOADED');
+    return { ...item, issues, isValid: issues.length === 0 };
+  });
+};
+
+// --- 区域划分 (Zones) ---
+// 集装箱内：完整落在装载包络（[0, 长] x [0, 高] x [0, 宽]，加上允许伸出的部分）内，且不与障碍物重叠
+// 待装区：集装箱侧面 (Z >= 包络宽度) 的地面区域，arrangeStaging 会把待装货物排在这里
+// 其他位置一律视为越界，包括部分伸出箱壁、顶穿箱顶、压进障碍物或停在箱门外的物品
+
+/**
+ * 纯坐标区域判定（1mm 容差）
+ */
+export const getZoneWithCoords = (
+  target: { x: number, y: number, z: number, l: number, h: number, w: number },
+  container: ContainerConfig
+): ItemZone => {
+  const epsilon = 1;
+  const envelope = getLoadingEnvelope(container);
+  const inside =
+    target.x >= envelope.x - epsilon && target.y >= -epsilon && target.z >= envelope.z - epsilon &&
+    target.x + target.l <= envelope.x + envelope.l + epsilon &&
+    target.y + target.h <= envelope.h + epsilon &&
+    target.z + target.w <= envelope.z + envelope.w + epsilon;
+  if (inside) {
+    const shrunk: Box = { x: target.x + epsilon, y: target.y + epsilon, z: target.z + epsilon, l: target.l - epsilon * 2, h: target.h - epsilon * 2, w: target.w - epsilon * 2 };
+    return getObstacleBoxes(container).some(o => boxIntersect(o, shrunk)) ? 'OUT_OF_BOUNDS' : 'CONTAINER';
+  }
+  if (target.z >= envelope.z + envelope.w - epsilon && target.y >= -epsilon) return 'STAGING';
+  return 'OUT_OF_BOUNDS';
+};
+
+/**
+ * 判断物品所在区域，用于区分“已装”“待装区”和“越界”
+ */
+export const getItemZone = (item: CargoItem, container: ContainerConfig): ItemZone => {
+  return getZoneWithCoords(itemToBox(item), container);
+};
+
+// --- 重心平衡 (Center of Gravity) ---
+
+// 默认允许的重心范围：纵向 ±10%，横向 ±5%
+export const DEFAULT_COG_WINDOW: CogWindow = { longitudinal: 0.1, lateral: 0.05 };
+
+/**
+ * 重心相对集装箱中心的偏移，按长 / 宽归一化（-0.5 ~ 0.5）
+ * 没有装载任何重量时返回 { x: 0, z: 0 }
+ */
+const getCogOffset = (items: CargoItem[], container: Dimensions): { x: number, z: number } => {
+  let weight = 0, sumMX = 0, sumMZ = 0;
+  for (const item of items) {
+    weight += item.weight;
+    sumMX += (item.position[0] + item.dimensions.length / 2) * item.weight;
+    sumMZ += (item.position[2] + item.dimensions.width / 2) * item.weight;
+  }
+  if (weight <= 0) return { x: 0, z: 0 };
+  return {
+    x: (sumMX / weight - container.length / 2) / container.length,
+    z: (sumMZ / weight - container.width / 2) / container.width
+  };
+};
+
+const isCogWithinWindow = (offset: { x: number, z: number }, window: CogWindow): boolean => {
+  // 留 1e-6 容差，避免平移到窗口边缘后因浮点误差被判为超出
+  return Math.abs(offset.x) <= window.longitudinal + 1e-6 && Math.abs(offset.z) <= window.lateral + 1e-6;
+};
+
+// 两组货物之间的卸货阻挡数：group 中的物品被 others 中更晚卸货的物品挡住，或反过来
+const countBlockedPairs = (group: CargoItem[], others: CargoItem[]): number => {
+  let count = 0;
+  for (const a of group) {
+    for (const b of others) {
+      if (isLaterStop(a, b) && isBlockedBy(itemToBox(a), itemToBox(b))) count++;
+      if (isLaterStop(b, a) && isBlockedBy(itemToBox(b), itemToBox(a))) count++;
+    }
+  }
+  return count;
+};
+
 /**
- * 将 CSV 导入的行数据转换为独立的货物对象
+ * 横向镜像：沿 X 方向把货物切成互不跨越的若干段，把某一段的摆放关于箱宽中线镜像 (z → 宽 - z - w)。
+ * 段内物品一起镜像，支撑和堆叠关系不变；各段在 X 方向互不重叠，镜像后也不会与其他段相撞。
+ * 从横向力矩最大的段开始，能减小横向偏移就镜像，直到横向重心回到允许范围内。
+ * 镜像后会碰到障碍物、压在障碍物上或新增卸货阻挡的段不动。
+ */
+const mirrorSlices = (items: CargoItem[], container: ContainerConfig, window: CogWindow): CargoItem[] => {
+  const totalWeight = items.reduce((sum, i) => sum + i.weight, 0);
+  if (totalWeight <= 0) return items;
+  const momentOf = (list: CargoItem[]) =>
+    list.reduce((sum, i) => sum + i.weight * (i.position[2] + i.dimensions.width / 2 - container.width / 2), 0);
+  let moment = momentOf(items);
+  const withinWindow = () => Math.abs(moment / totalWeight / container.width) <= window.lateral + 1e-6;
+  if (withinWindow()) return items;
+
+  // 按 X 起点排序扫描：起点不早于之前所有物品终点的物品开始新的一段
+  const slices: CargoItem[][] = [];
+  let end = -Infinity;
+  for (const item of [...items].sort((a, b) => a.position[0] - b.position[0])) {
+    if (item.position[0] >= end - 1) slices.push([]);
+    slices[slices.length - 1].push(item);
+    end = Math.max(end, item.position[0] + item.dimensions.length);
+  }
+  if (slices.length < 2) return items; // 整批镜像只会把偏移换到另一侧
+
+  const obstacles = getObstacleBoxes(container);
+  const mirror = (item: CargoItem): CargoItem => ({
+    ...item,
+    position: [item.position[0], item.position[1], container.width - item.position[2] - item.dimensions.width]
+  });
+  const replaced = new Map<string, CargoItem>();
+  const current = () => items.map(i => replaced.get(i.id) || i);
+  const candidates = slices
+    .map(slice => ({ slice, moment: momentOf(slice) }))
+    .sort((a, b) => Math.abs(b.moment) - Math.abs(a.moment));
+
+  for (const { slice, moment: sliceMoment } of candidates) {
+    if (withinWindow()) break;
+    if (Math.abs(moment - 2 * sliceMoment) >= Math.abs(moment)) continue;
+    const boxes = slice.map(itemToBox);
+    if (boxes.some(box => getSupportLinks(box, obstacles).length > 0)) continue;
+    const flipped = slice.map(mirror);
+    if (flipped.some(item => obstacles.some(o => boxIntersect(o, itemToBox(item))))) continue;
+    const ids = new Set(slice.map(i => i.id));
+    const rest = current().filter(i => !ids.has(i.id) && i.stop !== undefined);
+    if (rest.length > 0 && countBlockedPairs(flipped, rest) > countBlockedPairs(slice, rest)) continue;
+    flipped.forEach(i => replaced.set(i.id, i));
+    moment -= 2 * sliceMoment;
+  }
+  return replaced.size > 0 ? current() : items;
+};
+
+/**
+ * 重心平衡：先做横向镜像（见 mirrorSlices），再把整批货物作为一个整体在集装箱内平移，使重心回到允许范围内
+ * 整体平移不改变货物之间的相对位置，因此支撑、堆叠、卸货顺序都不受影响。
+ * 只在超出范围时移动，且只移动到范围边缘，尽量让货物保持靠墙。
+ */
+export const balanceLoad = (loaded: CargoItem[], container: ContainerConfig, window: CogWindow = DEFAULT_COG_WINDOW): CargoItem[] => {
+  if (loaded.length === 0) return loaded;
+  const items = mirrorSlices(loaded, container, window);
+  const offset = getCogOffset(items, container);
+  if (isCogWithinWindow(offset, window)) return items;
+
+  // 货物整体的包围盒决定了可平移的余量
+  let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
+  for (const item of items) {
+    minX = Math.min(minX, item.position[0]);
+    maxX = Math.max(maxX, item.position[0] + item.dimensions.length);
+    minZ = Math.min(minZ, item.position[2]);
+    maxZ = Math.max(maxZ, item.position[2] + item.dimensions.width);
+  }
+
+  // 需要的平移量：把超出的部分拉回到窗口边缘，再限制在余量内
+  const excessX = Math.abs(offset.x) > window.longitudinal ? offset.x - Math.sign(offset.x) * window.longitudinal : 0;
+  const excessZ = Math.abs(offset.z) > window.lateral ? offset.z - Math.sign(offset.z) * window.lateral : 0;
+  const envelope = getLoadingEnvelope(container);
+  let dx = Math.round(Math.min(envelope.x + envelope.l - maxX, Math.max(envelope.x - minX, -excessX * container.length)));
+  let dz = Math.round(Math.min(envelope.z + envelope.w - maxZ, Math.max(envelope.z - minZ, -excessZ * container.width)));
+
+  // 有障碍物时，平移不能把货物推进障碍物里：逐次减半，直到不再重叠；
+  // 有货物压在障碍物上时整体平移会让它失去支撑，干脆不平移
+  const obstacles = getObstacleBoxes(container);
+  if (items.some(item => getSupportLinks(itemToBox(item), obstacles).length > 0)) return items;
+  const hitsObstacle = (sx: number, sz: number) => items.some(item => {
+    const box = itemToBox(item);
+    return obstacles.some(o => boxIntersect(o, { ...box, x: box.x + sx, z: box.z + sz }));
+  });
+  for (let tries = 0; obstacles.length > 0 && (dx !== 0 || dz !== 0) && hitsObstacle(dx, dz); tries++) {
+    if (tries >= 6) return items;
+    dx = Math.trunc(dx / 2);
+    dz = Math.trunc(dz / 2);
+  }
+  if (dx === 0 && dz === 0) return items;
+
+  return items.map(item => ({
+    ...item,
+    position: [item.position[0] + dx, item.position[1], item.position[2] + dz]
+  }));
+};
+
+export interface LoadStats {
+  util: number; // 体积利用率 (%)
+  volM3: number;
+  totalWeight: number;
+  weightStatus: 'OK' | 'OVERWEIGHT';
+  loadedCount: number;
+  cog: { x: number, y: number, z: number }; // 重心坐标 (mm)，以集装箱角点为原点
+  cogOffset: { x: number, z: number }; // 重心相对中心的偏移比例
+  cogStatus: 'OK' | 'OUT_OF_WINDOW';
+}
+
+/**
+ * 单个集装箱的装载统计（利用率、重量、重心）
+ * loadedItems 为已装入该集装箱的物品
+ */
+export const computeLoadStats = (
+  loadedItems: CargoItem[],
+  container: ContainerConfig,
+  cogWindow: CogWindow = DEFAULT_COG_WINDOW
+): LoadStats => {
+  const containerVol = getUsableVolume(container);
+  const cogOffset = getCogOffset(loadedItems, container);
+  let packedVol = 0;
+  let weight = 0;
+  let sumMX = 0, sumMY = 0, sumMZ = 0;
+
+  loadedItems.forEach(item => {
+    packedVol += getItemVolume(item);
+    weight += item.weight;
+
+    const cx = item.position[0] + item.dimensions.length / 2;
+    const cy = item.position[1] + item.dimensions.height / 2;
+    const cz = item.position[2] + item.dimensions.width / 2;
+    sumMX += cx * item.weight;
+    sumMY += cy * item.weight;
+    sumMZ += cz * item.weight;
+  });
+
+  return {
+    util: containerVol > 0 ? (packedVol / containerVol) * 100 : 0,
+    volM3: packedVol / 1e9,
+    totalWeight: weight,
+    weightStatus: container.maxWeight > 0 && weight > container.maxWeight ? 'OVERWEIGHT' : 'OK',
+    loadedCount: loadedItems.length,
+    cog: {
+      x: weight > 0 ? Math.round(sumMX / weight) : 0,
+      y: weight > 0 ? Math.round(sumMY / weight) : 0,
+      z: weight > 0 ? Math.round(sumMZ / weight) : 0
+    },
+    cogOffset,
+    cogStatus: isCogWithinWindow(cogOffset, cogWindow) ? 'OK' : 'OUT_OF_WINDOW'
+  };
+};
+
+// --- 空隙分析与加固 (Void Analysis & Securing) ---
+// 装箱完成后，沿用求解器的剩余空间切分方法算出箱内剩下的空隙：
+// 与货物侧面相邻的空隙意味着货物在运输中可以移动，按缝隙宽度建议充气袋或垫木；
+// 朝箱门一侧完全敞开的货物排无法靠填充固定，建议绑扎
+
+export type VoidTreatment = 'AIRBAG' | 'DUNNAGE';
+export type SecuringKind = VoidTreatment | 'LASHING';
+
+export interface VoidSpace extends Box {
+  gap: number; // 相邻货物可以移动的距离 (mm)，空隙不与货物侧面相邻时为 0
+  treatment?: VoidTreatment;
+}
+
+// 朝箱门一侧无约束的一排货物
+export interface LashingRow {
+  x: number; // 货物排朝箱门的端面
+  y: number;
+  z: number;
+  h: number;
+  w: number;
+  weight: number;
+  itemIds: string[];
+  straps: number;
+}
+
+export interface SecuringMaterial {
+  kind: SecuringKind;
+  quantity: number;
+  unit: 'pcs' | 'm3';
+}
+
+export interface VoidAnalysis {
+  voids: VoidSpace[];
+  voidVolume: number; // mm³，只统计货物最高点以下的空隙
+  lashingRows: LashingRow[];
+  materials: SecuringMaterial[];
+}
+
+export interface SecuringOptions {
+  gapThreshold: number; // 小于该宽度的缝隙无需处理 (mm)
+  airbagMaxGap: number; // 充气袋能填充的最大缝隙 (mm)，更宽的缝隙用垫木
+}
+
+export const DEFAULT_SECURING_OPTIONS: SecuringOptions = { gapThreshold: 100, airbagMaxGap: 300 };
+
+const AIRBAG_FACE_AREA = 1000 * 1800; // 单个充气袋覆盖的面积 (mm²)
+const LASHING_CAPACITY = 2000; // 单根绑带的许用拉力 (kg)
+const LONGITUDINAL_ACCELERATION = 0.8; // 纵向紧急制动按 0.8g 计
+const MAX_VOID_PIECES = 500;
+const FACE_TOLERANCE = 1;
+
+const spanOverlap = (a1: number, a2: number, b1: number, b2: number): number => Math.min(a2, b2) - Math.max(a1, b1);
+
+// a 与 b 沿 X / Z 方向面对面相贴（另外两个方向有重叠面积）
+const facesTouch = (a: Box, b: Box, axis: 'x' | 'z'): boolean => {
+  if (spanOverlap(a.y, a.y + a.h, b.y, b.y + b.h) <= 0) return false;
+  if (axis === 'x') {
+    return spanOverlap(a.z, a.z + a.w, b.z, b.z + b.w) > 0 &&
+      (Math.abs(a.x + a.l - b.x) <= FACE_TOLERANCE || Math.abs(b.x + b.l - a.x) <= FACE_TOLERANCE);
+  }
+  return spanOverlap(a.x, a.x + a.l, b.x, b.x + b.l) > 0 &&
+    (Math.abs(a.z + a.w - b.z) <= FACE_TOLERANCE || Math.abs(b.z + b.w - a.z) <= FACE_TOLERANCE);
+};
+
+// 剩余空间列表中的极大空间互相重叠，逐个取出体积最大的空间并从其余空间中扣除，得到互不重叠的空隙
+const toDisjointSpaces = (spaces: Box[]): Box[] => {
+  let remaining = [...spaces];
+  const result: Box[] = [];
+  while (remaining.length > 0 && result.length < MAX_VOID_PIECES) {
+    const largest = remaining.reduce((best, s) => boxVolume(s) > boxVolume(best) ? s : best);
+    result.push(largest);
+    remaining = cleanupSpaces(splitSpaces(remaining.filter(s => s !== largest), largest));
+  }
+  return result;
+};
+
+/**
+ * 单个集装箱的空隙分析：空隙位置、填充建议、需要绑扎的货物排以及加固材料清单
+ * loadedItems 为已装入该集装箱的物品；圆柱按包围盒计算
+ */
+export const analyzeVoids = (
+  loadedItems: CargoItem[],
+  container: ContainerConfig,
+  options: SecuringOptions = DEFAULT_SECURING_OPTIONS
+): VoidAnalysis => {
+  const cargo = loadedItems.map(itemToBox);
+  const top = Math.min(container.height, Math.max(0, ...cargo.map(b => b.y + b.h)));
+  if (cargo.length === 0 || top <= 0) return { voids: [], voidVolume: 0, lashingRows: [], materials: [] };
+
+  // 从求解器的初始剩余空间（装载包络扣除障碍物）出发，再扣除货物。
+  // 货物最高点以上是正常的顶部余量，不算空隙；允许伸出的部分只算到货物实际伸到的位置
+  const x1 = Math.min(0, ...cargo.map(b => b.x));
+  const z1 = Math.min(0, ...cargo.map(b => b.z));
+  const x2 = Math.max(container.length, ...cargo.map(b => b.x + b.l));
+  const z2 = Math.max(container.width, ...cargo.map(b => b.z + b.w));
+  const region = getInitialFreeSpaces(container)
+    .map(s => {
+      const x = Math.max(s.x, x1), z = Math.max(s.z, z1);
+      return { x, y: s.y, z, l: Math.min(s.x + s.l, x2) - x, h: Math.min(s.y + s.h, top) - s.y, w: Math.min(s.z + s.w, z2) - z };
+    })
+    .filter(s => s.l > 0 && s.h > 0 && s.w > 0);
+  const free = cargo.reduce((spaces, occupied) => cleanupSpaces(splitSpaces(spaces, occupied)), region);
+
+  let airbags = 0;
+  let dunnageVol = 0;
+  const doorVoids: Box[] = [];
+  const voids: VoidSpace[] = toDisjointSpaces(free).map(space => {
+    const openToDoor = space.x + space.l >= x2 - FACE_TOLERANCE;
+    const bordersX = cargo.some(b => facesTouch(space, b, 'x'));
+    const bordersZ = cargo.some(b => facesTouch(space, b, 'z'));
+    // 箱门一侧的宽空隙无法填充，挨着它的货物改为绑扎
+    const fillableX = bordersX && !(openToDoor && space.l > options.airbagMaxGap);
+    if (bordersX && !fillableX) doorVoids.push(space);
+
+    const gapX = fillableX ? space.l : Infinity;
+    const gapZ = bordersZ ? space.w : Infinity;
+    const gap = Math.min(gapX, gapZ);
+    if (gap === Infinity) return { ...space, gap: 0 };
+    if (gap < options.gapThreshold) return { ...space, gap };
+
+    if (gap > options.airbagMaxGap) {
+      dunnageVol += boxVolume(space);
+      return { ...space, gap, treatment: 'DUNNAGE' };
+    }
+    // 充气袋垂直于缝隙方向放置，按覆盖面积计数
+    const faceArea = gap === gapX ? space.w * space.h : space.l * space.h;
+    airbags += Math.max(1, Math.ceil(faceArea / AIRBAG_FACE_AREA));
+    return { ...space, gap, treatment: 'AIRBAG' };
+  });
+
+  // 端面贴着箱门一侧宽空隙的货物，按端面位置分排
+  const rows = new Map<number, LashingRow>();
+  loadedItems.forEach((item, idx) => {
+    const box = cargo[idx];
+    const face = box.x + box.l;
+    const exposed = doorVoids.some(v =>
+      Math.abs(v.x - face) <= FACE_TOLERANCE &&
+      spanOverlap(v.y, v.y + v.h, box.y, box.y + box.h) > 0 &&
+      spanOverlap(v.z, v.z + v.w, box.z, box.z + box.w) > 0
+    );
+    if (!exposed) return;
+    const key = Math.round(face / 50);
+    const row = rows.get(key);
+    if (!row) {
+      rows.set(key, { x: face, y: box.y, z: box.z, h: box.h, w: box.w, weight: item.weight, itemIds: [item.id], straps: 0 });
+      return;
+    }
+    const zEnd = Math.max(row.z + row.w, box.z + box.w);
+    const yEnd = Math.max(row.y + row.h, box.y + box.h);
+    row.z = Math.min(row.z, box.z);
+    row.y = Math.min(row.y, box.y);
+    row.w = zEnd - row.z;
+    row.h = yEnd - row.y;
+    row.x = Math.max(row.x, face);
+    row.weight += item.weight;
+    row.itemIds.push(item.id);
+  });
+  const lashingRows = [...rows.values()].map(row => ({
+    ...row,
+    straps: Math.max(2, Math.ceil(row.weight * LONGITUDINAL_ACCELERATION / LASHING_CAPACITY))
+  }));
+  const straps = lashingRows.reduce((sum, row) => sum + row.straps, 0);
+
+  const materials: SecuringMaterial[] = [];
+  if (airbags > 0) materials.push({ kind: 'AIRBAG', quantity: airbags, unit: 'pcs' });
+  if (dunnageVol > 0) materials.push({ kind: 'DUNNAGE', quantity: Math.round(dunnageVol / 1e7) / 100, unit: 'm3' });
+  if (straps > 0) materials.push({ kind: 'LASHING', quantity: straps, unit: 'pcs' });
+
+  return {
+    voids,
+    voidVolume: voids.reduce((sum, v) => sum + boxVolume(v), 0),
+    lashingRows,
+    materials
+  };
+};
+
+/**
+ * 合并多个集装箱的加固材料清单
+ */
+export const mergeSecuringMaterials = (lists: SecuringMaterial[][]): SecuringMaterial[] => {
+  const merged = new Map<SecuringKind, SecuringMaterial>();
+  lists.flat().forEach(m => {
+    const line = merged.get(m.kind);
+    merged.set(m.kind, line ? { ...line, quantity: Math.round((line.quantity + m.quantity) * 100) / 100 } : { ...m });
+  });
+  return [...merged.values()];
+};
+
+// --- 装载步骤 (Loading Steps) ---
+// 把装好的方案还原为现场的装载顺序：从箱头往箱门，同一段内先下后上；
+// 任何货物都排在托住它的货物之后。顺序按纵深切成若干步，每步是一面可以一次装完的"墙"
+
+export interface LoadingStepEntry {
+  item: CargoItem;
+  tier: number; // 第几层：直接放在地面上为 1
+}
+
+export interface LoadingStep {
+  index: number; // 从 1 开始
+  entries: LoadingStepEntry[];
+  depthFrom: number; // 本步货物距箱头的最小 / 最大纵深 (mm)
+  depthTo: number;
+}
+
+// 每步覆盖的纵深和最多包含的货物件数
+export const LOADING_STEP_DEPTH = 1200;
+export const MAX_STEP_ITEMS = 24;
+
+/**
+ * 生成一个集装箱的装载步骤
+ */
+export const planLoadingSteps = (
+  loadedItems: CargoItem[],
+  stepDepth: number = LOADING_STEP_DEPTH,
+  maxStepItems: number = MAX_STEP_ITEMS
+): LoadingStep[] => {
+  const boxes = loadedItems.map(itemToBox);
+  const supports = boxes.map(box => getSupportLinks(box, boxes).map(link => link.index));
+  const band = (i: number) => Math.floor(boxes[i].x / stepDepth);
+  // 优先级：纵深段 -> 高度 -> 横向位置
+  const before = (a: number, b: number) =>
+    band(a) - band(b) || boxes[a].y - boxes[b].y || boxes[a].z - boxes[b].z || boxes[a].x - boxes[b].x;
+
+  // 按优先级做拓扑排序：支撑物全部装完的货物才可以装
+  const tiers = new Array<number>(boxes.length).fill(0);
+  const pending = new Set(boxes.map((_, i) => i));
+  const order: number[] = [];
+  while (pending.size > 0) {
+    let next = -1;
+    pending.forEach(i => {
+      if (supports[i].some(s => pending.has(s))) return;
+      if (next < 0 || before(i, next) < 0) next = i;
+    });
+    // 支撑关系成环（只在数据异常时出现）：按优先级取一个继续
+    if (next < 0) next = [...pending].sort(before)[0];
+    pending.delete(next);
+    tiers[next] = 1 + Math.max(0, ...supports[next].map(s => tiers[s]));
+    order.push(next);
+  }
+
+  const steps: LoadingStep[] = [];
+  let current: number[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    steps.push({
+      index: steps.length + 1,
+      entries: current.map(i => ({ item: loadedItems[i], tier: tiers[i] })),
+      depthFrom: Math.round(Math.min(...current.map(i => boxes[i].x))),
+      depthTo: Math.round(Math.max(...current.map(i => boxes[i].x + boxes[i].l)))
+    });
+    current = [];
+  };
+  order.forEach(i => {
+    if (current.length > 0 && (band(i) !== band(current[0]) || current.length >= maxStepItems)) flush();
+    current.push(i);
+  });
+  flush();
+  return steps;
+};
+
+// --- 姿态 (Orientation) 工具 ---
+
+type AxisLetter = 'L' | 'W' | 'H';
+
+const AXIS_KEY: Record<AxisLetter, keyof Dimensions> = { L: 'length', W: 'width', H: 'height' };
+
+// 每种约束允许的姿态，按优先级排列（原始姿态优先）
+const ALLOWED_ORIENTATIONS: Record<OrientationRule, Orientation[]> = {
+  ANY: ['LWH', 'WLH', 'LHW', 'HLW', 'WHL', 'HWL'],
+  UPRIGHT: ['LWH', 'WLH'],
+  FIXED: ['LWH']
+};
+
+/**
+ * 姿态是否为约束允许的姿态（也用于校验从文件读入的姿态字符串）
+ */
+export const isAllowedOrientation = (orientation: string, rule: OrientationRule = 'ANY'): orientation is Orientation =>
+  (ALLOWED_ORIENTATIONS[rule] as string[]).includes(orientation);
+
+/**
+ * 按指定姿态计算货物在场景中的尺寸
+ */
+export const getOrientedDimensions = (base: Dimensions, orientation: Orientation): Dimensions => ({
+  length: base[AXIS_KEY[orientation[0] as AxisLetter]],
+  width: base[AXIS_KEY[orientation[1] as AxisLetter]],
+  height: base[AXIS_KEY[orientation[2] as AxisLetter]]
+});
+
+/**
+ * 还原货物导入时的原始尺寸（撤销当前姿态的旋转）
+ */
+export const getBaseDimensions = (item: CargoItem): Dimensions => {
+  const orientation = item.orientation || 'LWH';
+  const current = [item.dimensions.length, item.dimensions.width, item.dimensions.height];
+  const base: Dimensions = { length: 0, width: 0, height: 0 };
+  for (let i = 0; i < 3; i++) {
+    base[AXIS_KEY[orientation[i] as AxisLetter]] = current[i];
+  }
+  return base;
+};
+
+/**
+ * 列出货物在其姿态约束下所有可用的摆放方式
+ * 尺寸完全相同的姿态（如正方体）只保留一个，避免重复计算
+ */
+const getAllowedPoses = (item: CargoItem): { orientation: Orientation, dims: Dimensions }[] => {
+  const base = getBaseDimensions(item);
+  const poses: { orientation: Orientation, dims: Dimensions }[] = [];
+  for (const orientation of ALLOWED_ORIENTATIONS[item.orientationRule || 'ANY']) {
+    const dims = getOrientedDimensions(base, orientation);
+    const duplicate = poses.some(p => p.dims.length === dims.length && p.dims.width === dims.width && p.dims.height === dims.height);
+    if (!duplicate) poses.push({ orientation, dims });
+  }
+  return poses;
+};
+
+/**
+ * 手动旋转：绕竖直轴转 90°（长宽方向互换），以原来的角点为基准
+ * 姿态约束不允许时返回 null
+ */
+export const rotateItemYaw = (item: CargoItem): CargoItem | null => {
+  const current = item.orientation || 'LWH';
+  const next = (current[1] + current[0] + current[2]) as Orientation;
+  if (!ALLOWED_ORIENTATIONS[item.orientationRule || 'ANY'].includes(next)) return null;
+  const { length, width, height } = item.dimensions;
+  return { ...item, orientation: next, dimensions: { length: width, width: length, height } };
+};
+
+// 奇置换姿态相当于镜像，需要再翻转一个轴才是真实的旋转
+const MIRRORED_ORIENTATIONS = new Set<Orientation>(['WLH', 'LHW', 'HWL']);
+
+/**
+ * 姿态叠加：先按 inner 摆放，再把整体按 outer 旋转后得到的姿态
+ * （用于组合件内的零件随组合件一起旋转）
+ */
+const composeOrientation = (outer: Orientation, inner: Orientation): Orientation => {
+  const frame = 'LWH';
+  return [0, 1, 2].map(i => inner[frame.indexOf(outer[i])]).join('') as Orientation;
+};
+
+// --- 圆柱形货物 (Cylinders) ---
+// 装箱和碰撞仍以外包围盒为准，但两个轴向相同的圆柱按截面圆判断是否重叠，
+// 这样竖放的圆桶可以按六角形错位嵌套排列
+
+export type CylinderAxis = 'x' | 'y' | 'z';
+
+// 圆柱轴线对应导入尺寸中的哪条边
+const CYLINDER_AXIS_EDGE: Record<Exclude<CargoShape, 'BOX'>, AxisLetter> = { CYLINDER_UPRIGHT: 'H', CYLINDER_LYING: 'L' };
+// 姿态字符串的三个位置依次对应 X、Z、Y 轴
+const POSE_AXES: CylinderAxis[] = ['x', 'z', 'y'];
+
+/**
+ * 圆柱在当前姿态下的轴线方向，非圆柱返回 undefined
+ */
+export const getCylinderAxis = (shape?: CargoShape, orientation: Orientation = 'LWH'): CylinderAxis | undefined => {
+  if (!shape || shape === 'BOX') return undefined;
+  return POSE_AXES[orientation.indexOf(CYLINDER_AXIS_EDGE[shape])];
+};
+
+// 截面半径：取截面两条边中较小的一条
+const getCylinderRadius = (box: Box, axis: CylinderAxis): number =>
+  axis === 'x' ? Math.min(box.h, box.w) / 2 : axis === 'y' ? Math.min(box.l, box.w) / 2 : Math.min(box.l, box.h) / 2;
+
+// 截面圆心（轴线以外两个方向的坐标）
+const getCrossCenter = (box: Box, axis: CylinderAxis): [number, number] =>
+  axis === 'x' ? [box.y + box.h / 2, box.z + box.w / 2]
+    : axis === 'y' ? [box.x + box.l / 2, box.z + box.w / 2]
+    : [box.x + box.l / 2, box.y + box.h / 2];
+
+/**
+ * 两个物体是否重叠：先比较包围盒，两个同轴向的圆柱再比较截面圆心距
+ * epsilon 为接触容差，刚好贴合不算重叠
+ */
+const solidsOverlap = (a: Box, aAxis: CylinderAxis | undefined, b: Box, bAxis: CylinderAxis | undefined, epsilon: number = 1): boolean => {
+  const aabb = a.x < b.x + b.l - epsilon && a.x + a.l > b.x + epsilon &&
+    a.y < b.y + b.h - epsilon && a.y + a.h > b.y + epsilon &&
+    a.z < b.z + b.w - epsilon && a.z + a.w > b.z + epsilon;
+  if (!aabb || !aAxis || aAxis !== bAxis) return aabb;
+  const [au, av] = getCrossCenter(a, aAxis);
+  const [bu, bv] = getCrossCenter(b, bAxis);
+  return Math.hypot(au - bu, av - bv) < getCylinderRadius(a, aAxis) + getCylinderRadius(b, bAxis) - epsilon;
+};
+
+/**
+ * 货物的实际体积（圆柱按 πr²h 计算），用于利用率统计
+ */
+export const getItemVolume = (item: CargoItem): number => {
+  const { length, width, height } = item.dimensions;
+  const axis = getCylinderAxis(item.shape, item.orientation);
+  if (!axis) return length * width * height;
+  const r = getCylinderRadius(itemToBox(item), axis);
+  return Math.PI * r * r * (axis === 'x' ? length : axis === 'y' ? height : width);
+};
+
+/**
+ * 解析 CSV 中的外形列
+ */
+export const parseShape = (raw?: string): CargoShape => {
+  const key = (raw || '').trim().toUpperCase().replace(/[\s-]+/g, '_');
+  switch (key) {
+    case 'CYLINDER':
+    case 'CYLINDER_UPRIGHT':
+    case 'DRUM':
+    case '圆桶':
+    case '立式圆柱':
+      return 'CYLINDER_UPRIGHT';
+    case 'CYLINDER_LYING':
+    case 'COIL':
+    case 'REEL':
+    case '线盘':
+    case '卷材':
+    case '卧式圆柱':
+      return 'CYLINDER_LYING';
+    default:
+      return 'BOX';
+  }
+};
+
+/**
+ * 解析 CSV 中的姿态约束列
+ * 支持中英文写法，无法识别或留空时默认为可任意翻转
+ */
+export const parseOrientationRule = (raw?: string): OrientationRule => {
+  const key = (raw || '').trim().toUpperCase().replace(/[\s-]+/g, '_');
+  switch (key) {
+    case 'FIXED':
+    case 'NO_ROTATION':
+    case '禁止旋转':
+      return 'FIXED';
+    case 'UPRIGHT':
+    case 'THIS_SIDE_UP':
+    case '此面向上':
+      return 'UPRIGHT';
+    default:
+      // 'ANY' / 'MAY_LAY_FLAT' / '可平放' 等
+      return 'ANY';
+  }
+};
+
+/**
+ * 解析 CSV 中的是/否标记列（如不可堆叠、只能放顶层）
+ */
+export const parseFlag = (raw?: string): boolean => {
+  const key = (raw || '').trim().toUpperCase();
+  return key === 'Y' || key === 'YES' || key === 'TRUE' || key === '1' || key === '是';
+};
+
+/**
+ * 将导入的清单行转换为货物
+ * 普通行按数量拆成独立的货物；带组套数量的行按主图号合并成组合件
  */
 export const createCargoGroups = (rows: ImportedRow[]): CargoItem[] => {
   const cargoItems: CargoItem[] = [];
+  const kits = new Map<string, { rows: ImportedRow[], quantity: number }>();
+  const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+  // 圆柱截面取两条边中较大者，保证截面为正圆
+  const getRowDimensions = (row: ImportedRow): Dimensions => {
+    if (row.shape === 'CYLINDER_UPRIGHT') {
+      const d = Math.max(row.length, row.width);
+      return { length: d, width: d, height: row.height };
+    }
+    if (row.shape === 'CYLINDER_LYING') {
+      const d = Math.max(row.width, row.height);
+      return { length: row.length, width: d, height: d };
+    }
+    return { length: row.length, width: row.width, height: row.height };
+  };
+
   rows.forEach((row, rowIdx) => {
+    if (row.kitQuantity && row.kitQuantity > 0) {
+      // 同一主图号的组套行属于同一个组合件，套数以第一行为准
+      const kit = kits.get(row.mainDrawingNo);
+      if (kit) kit.rows.push(row);
+      else kits.set(row.mainDrawingNo, { rows: [row], quantity: row.kitQuantity });
+      return;
+    }
+
     // 优先使用 SubDrawingNo 作为唯一标识，否则使用 MainDrawingNo
     const identifier = row.subDrawingNo && row.subDrawingNo.trim() !== '' ? row.subDrawingNo : row.mainDrawingNo;
     const itemColor = getStringColor(identifier);
@@ -167,23 +1182,235 @@ export const createCargoGroups = (rows: ImportedRow[]): CargoItem[] => {
     // 根据 Quantity 数量，生成对应个数的独立 Item
     for (let i = 0; i < row.quantity; i++) {
       cargoItems.push({
-        id: `item-${rowIdx}-${i}-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+        id: newId(`item-${rowIdx}-${i}`),
         drawingNo: row.mainDrawingNo,
         subDrawingNo: row.subDrawingNo,
-        dimensions: { length: row.length, width: row.width, height: row.height },
+        dimensions: getRowDimensions(row),
         position: [0, 0, 0], 
         color: itemColor,
         weight: row.weight,
         selected: false,
         isValid: true,
+        orientationRule: row.orientation || 'ANY',
+        orientation: 'LWH',
+        maxStackLoad: row.maxStackLoad,
+        nonStackable: row.nonStackable,
+        topOnly: row.topOnly,
+        stop: row.stop,
+        shape: row.shape,
+        mandatory: row.mandatory,
+        priority: row.priority,
+        value: row.value,
         isGroup: false,
         subItems: []
       });
     }
   });
+
+  kits.forEach((kit, drawingNo) => {
+    for (let k = 0; k < kit.quantity; k++) {
+      const parts: SubItem[] = [];
+      kit.rows.forEach(row => {
+        for (let i = 0; i < row.quantity; i++) {
+          parts.push({
+            id: newId(`part-${parts.length}`),
+            drawingNo: row.mainDrawingNo,
+            subDrawingNo: row.subDrawingNo,
+            dimensions: getRowDimensions(row),
+            relativePosition: [0, 0, 0],
+            color: getStringColor(row.subDrawingNo || row.mainDrawingNo),
+            weight: row.weight,
+            orientation: 'LWH',
+            orientationRule: row.orientation || 'ANY',
+            maxStackLoad: row.maxStackLoad,
+            nonStackable: row.nonStackable,
+            topOnly: row.topOnly,
+            stop: row.stop,
+            shape: row.shape,
+            mandatory: row.mandatory,
+            priority: row.priority,
+            // 组套行的货值按件填写
+            value: row.value
+          });
+        }
+      });
+      if (parts.length === 0) continue;
+      cargoItems.push(buildGroup(newId(`group-${k}`), drawingNo, arrangeGroupParts(parts), [0, 0, 0]));
+    }
+  });
   return cargoItems;
 };
 
+// --- 组合件 (Composite Groups) ---
+// 组合件是预先装配好的成套零件，求解器把它当作一个刚性整体（外包围盒）装箱和移动。
+// 零件的 relativePosition 记录在组合件自身的 LWH 坐标系里，随组合件姿态一起旋转。
+
+/**
+ * 为导入的组套零件排出一个紧凑的平面布局（按占地面积从大到小逐行铺放）
+ */
+const arrangeGroupParts = (parts: SubItem[]): SubItem[] => {
+  const sorted = [...parts].sort((a, b) =>
+    b.dimensions.length * b.dimensions.width - a.dimensions.length * a.dimensions.width);
+  const area = sorted.reduce((sum, p) => sum + p.dimensions.length * p.dimensions.width, 0);
+  const rowLength = Math.max(...sorted.map(p => p.dimensions.length), Math.sqrt(area));
+  let x = 0, z = 0, rowDepth = 0;
+  return sorted.map(part => {
+    if (x > 0 && x + part.dimensions.length > rowLength) {
+      x = 0;
+      z += rowDepth;
+      rowDepth = 0;
+    }
+    const relativePosition: [number, number, number] = [x, 0, z];
+    x += part.dimensions.length;
+    rowDepth = Math.max(rowDepth, part.dimensions.width);
+    return { ...part, relativePosition };
+  });
+};
+
+/**
+ * 由已摆好相对位置的零件生成组合件
+ * 外包围盒、总重取自零件；堆叠、姿态等规则取零件中最严格的一项
+ */
+const buildGroup = (id: string, drawingNo: string, parts: SubItem[], position: [number, number, number]): CargoItem => {
+  const dimensions: Dimensions = {
+    length: Math.max(...parts.map(p => p.relativePosition[0] + p.dimensions.length)),
+    width: Math.max(...parts.map(p => p.relativePosition[2] + p.dimensions.width)),
+    height: Math.max(...parts.map(p => p.relativePosition[1] + p.dimensions.height))
+  };
+  const rules = parts.map(p => p.orientationRule || 'ANY');
+  const limits = parts.map(p => p.maxStackLoad).filter((v): v is number => v !== undefined && v >= 0);
+  const stops = parts.map(p => p.stop).filter((v): v is number => v !== undefined);
+  const priorities = parts.map(p => p.priority).filter((v): v is number => v !== undefined);
+  const values = parts.map(p => p.value).filter((v): v is number => v !== undefined);
+  return {
+    id,
+    drawingNo,
+    subDrawingNo: `KIT×${parts.length}`,
+    dimensions,
+    position,
+    color: getStringColor(drawingNo),
+    weight: parts.reduce((sum, p) => sum + p.weight, 0),
+    selected: false,
+    isValid: true,
+    orientationRule: rules.includes('FIXED') ? 'FIXED' : rules.includes('UPRIGHT') ? 'UPRIGHT' : 'ANY',
+    orientation: 'LWH',
+    maxStackLoad: limits.length > 0 ? Math.min(...limits) : undefined,
+    nonStackable: parts.some(p => p.nonStackable) || undefined,
+    topOnly: parts.some(p => p.topOnly) || undefined,
+    stop: stops.length > 0 ? Math.min(...stops) : undefined,
+    // 只要有一个零件必须发运，整个组合件就必须发运；优先级取最高，货值累加
+    mandatory: parts.some(p => p.mandatory) || undefined,
+    priority: priorities.length > 0 ? Math.max(...priorities) : undefined,
+    value: values.length > 0 ? values.reduce((sum, v) => sum + v, 0) : undefined,
+    isGroup: true,
+    subItems: parts
+  };
+};
+
+/**
+ * 计算组合件在当前姿态下各零件的相对位置、尺寸和姿态
+ */
+export const getOrientedSubItems = (group: CargoItem): SubItem[] => {
+  if (!group.subItems || group.subItems.length === 0) return [];
+  const orientation = group.orientation || 'LWH';
+  return group.subItems.map(part => {
+    const [rx, ry, rz] = part.relativePosition;
+    const coord: Record<AxisLetter, number> = { L: rx, W: rz, H: ry };
+    const dimensions = getOrientedDimensions(part.dimensions, orientation);
+    const x = coord[orientation[0] as AxisLetter];
+    const y = coord[orientation[2] as AxisLetter];
+    let z = coord[orientation[1] as AxisLetter];
+    if (MIRRORED_ORIENTATIONS.has(orientation)) z = group.dimensions.width - z - dimensions.width;
+    return {
+      ...part,
+      dimensions,
+      relativePosition: [x, y, z] as [number, number, number],
+      orientation: composeOrientation(orientation, part.orientation || 'LWH')
+    };
+  });
+};
+
+// 货物转为组合件零件，origin 为组合件的原点
+const toSubItem = (item: CargoItem, origin: [number, number, number]): SubItem => ({
+  id: item.id,
+  drawingNo: item.drawingNo,
+  subDrawingNo: item.subDrawingNo || '',
+  dimensions: item.dimensions,
+  relativePosition: [item.position[0] - origin[0], item.position[1] - origin[1], item.position[2] - origin[2]],
+  color: item.color,
+  weight: item.weight,
+  orientation: item.orientation || 'LWH',
+  orientationRule: item.orientationRule,
+  maxStackLoad: item.maxStackLoad,
+  nonStackable: item.nonStackable,
+  topOnly: item.topOnly,
+  stop: item.stop,
+  shape: item.shape,
+  mandatory: item.mandatory,
+  priority: item.priority,
+  value: item.value
+});
+
+// 零件图号都相同时沿用该图号，否则以第一个零件的图号加 KIT 前缀
+const getGroupDrawingNo = (items: CargoItem[]): string =>
+  new Set(items.map(i => i.drawingNo)).size === 1 ? items[0].drawingNo : `KIT-${items[0].drawingNo}`;
+
+/**
+ * 把若干货物按当前摆放组合成一个组合件（零件保持彼此间的相对位置）
+ * 任一成员已锁定时，组合件也保持锁定
+ */
+export const combineItems = (items: CargoItem[]): CargoItem => {
+  // 已有的组合件先拆开，避免嵌套
+  const flat = items.flatMap(item => item.isGroup ? splitGroup(item, true) : [item]);
+  const origin: [number, number, number] = [
+    Math.min(...flat.map(i => i.position[0])),
+    Math.min(...flat.map(i => i.position[1])),
+    Math.min(...flat.map(i => i.position[2]))
+  ];
+  const id = `group-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+  const group = buildGroup(id, getGroupDrawingNo(flat), flat.map(item => toSubItem(item, origin)), origin);
+  return { ...group, containerId: items[0].containerId, pinned: items.some(i => i.pinned) || undefined };
+};
+
+/**
+ * 把组合件拆回独立货物，零件留在当前的绝对位置上（锁定状态随组合件）
+ * 拆开托盘时托盘本身不作为货物保留，货物落到托盘原来的高度；keepPalletDeck 时保留托盘（用于重新组合）
+ */
+export const splitGroup = (group: CargoItem, keepPalletDeck: boolean = false): CargoItem[] => {
+  const parts = getOrientedSubItems(group);
+  const deck = keepPalletDeck ? undefined : parts.find(part => part.isPalletDeck);
+  const drop = deck ? deck.dimensions.height : 0;
+  return parts.filter(part => part !== deck).map(part => ({
+    id: part.id,
+    drawingNo: part.drawingNo,
+    subDrawingNo: part.subDrawingNo,
+    dimensions: part.dimensions,
+    position: [
+      group.position[0] + part.relativePosition[0],
+      group.position[1] + part.relativePosition[1] - drop,
+      group.position[2] + part.relativePosition[2]
+    ] as [number, number, number],
+    color: part.color,
+    weight: part.weight,
+    selected: group.selected,
+    isValid: true,
+    orientationRule: part.orientationRule || 'ANY',
+    orientation: part.orientation,
+    maxStackLoad: part.maxStackLoad,
+    nonStackable: part.nonStackable,
+    topOnly: part.topOnly,
+    stop: part.stop,
+    shape: part.shape,
+    mandatory: part.mandatory,
+    priority: part.priority,
+    value: part.value,
+    containerId: group.containerId,
+    pinned: group.pinned,
+    isGroup: false,
+    subItems: []
+  }));
+};
+
 /**
  * 待装载区排列逻辑
  * 简单的二维排列，防止货物堆在一起，方便用户手动选取
@@ -206,48 +1433,209 @@ export const arrangeStaging = (items: CargoItem[], container: Dimensions): Cargo
     const pos: [number, number, number] = [currentX, 0, currentZ];
     currentX += item.dimensions.length + spacing;
     maxZInRow = Math.max(maxZInRow, item.dimensions.width);
-    return { ...item, position: pos, isValid: true };
+    return { ...item, position: pos, isValid: true, issues: [] };
   });
 };
 
+// --- 托盘化 (Palletization) ---
+// 两级装载：先把小件装到托盘上，每个托盘成为一个组合件，再把托盘装进集装箱。
+
+const PALLET_DECK_COLOR = '#a16207';
+
+/**
+ * 用一组已在托盘上排好的货物（坐标相对于托盘面）生成托盘组合件
+ */
+const buildPallet = (template: PalletTemplate, loaded: CargoItem[], index: number): CargoItem => {
+  const stamp = `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+  const deck: SubItem = {
+    id: `deck-${index}-${stamp}`,
+    drawingNo: template.name,
+    subDrawingNo: 'PALLET',
+    dimensions: { length: template.length, width: template.width, height: template.deckHeight },
+    relativePosition: [0, 0, 0],
+    color: PALLET_DECK_COLOR,
+    weight: template.tareWeight,
+    orientation: 'LWH',
+    orientationRule: 'UPRIGHT',
+    isPalletDeck: true
+  };
+  const cartons = loaded.map(item => toSubItem(item, [0, -template.deckHeight, 0]));
+  const drawingNo = getGroupDrawingNo(loaded);
+  const group = buildGroup(`pallet-${index}-${stamp}`, drawingNo, [deck, ...cartons], [0, 0, 0]);
+  return {
+    ...group,
+    subDrawingNo: `${template.name} #${index + 1}`,
+    color: getStringColor(loaded[0].subDrawingNo || drawingNo),
+    // 托盘只能正放（可水平转向）
+    orientationRule: 'UPRIGHT',
+    pallet: template.name
+  };
+};
+
+/**
+ * 托盘上的货物（不含托盘本身）
+ */
+export const getPalletContents = (pallet: CargoItem): SubItem[] =>
+  (pallet.subItems || []).filter(part => !part.isPalletDeck);
+
+/**
+ * 把货物逐个托盘装满：托盘面即装载空间，高度和载重受模板限制
+ * 装不上任何托盘的货物（如超出托盘尺寸）原样留在 leftover 中
+ */
+export const palletizeItems = (items: CargoItem[], template: PalletTemplate): { pallets: CargoItem[], leftover: CargoItem[] } => {
+  const deckSpace: ContainerConfig = {
+    name: template.name,
+    length: template.length,
+    width: template.width,
+    height: Math.max(0, template.maxHeight - template.deckHeight),
+    maxWeight: template.maxWeight
+  };
+  const pallets: CargoItem[] = [];
+  let remaining = items.map(i => ({ ...i, pinned: false, selected: false, containerId: undefined }));
+  while (remaining.length > 0) {
+    // 托盘上不做搜索，构造阶段的最好结果已足够
+    const result = packBest(remaining, deckSpace, { searchIterations: 0 });
+    const loaded = result.items.filter(i => i.isValid);
+    if (loaded.length === 0) break;
+    pallets.push(buildPallet(template, loaded, pallets.length));
+    const loadedIds = new Set(loaded.map(i => i.id));
+    remaining = remaining.filter(i => !loadedIds.has(i.id));
+  }
+  return { pallets, leftover: remaining };
+};
+
+// --- 摆放策略 (Placement Policies) ---
+
+// 给候选位置打分时可用的上下文
+export interface PlacementContext {
+  container: ContainerConfig;
+  placed: Box[]; // 已放置物品占用的空间
+  layerTops: Set<number>; // 已放置物品的顶面高度，分层堆码时用来对齐层面
+}
+
+/**
+ * 摆放策略：决定一件货物放在哪个候选位置
+ * 候选位置默认取剩余空间的角点，useExtremePoints 时改为极点；
+ * score 返回的数组按字典序比较，越小越好。
+ */
+export interface PlacementPolicy {
+  id: PlacementPolicyId;
+  useExtremePoints?: boolean;
+  score: (box: Box, space: Box, ctx: PlacementContext) => number[];
+}
+
+const boxVolume = (b: Box): number => b.l * b.h * b.w;
+
+export const PLACEMENT_POLICIES: Record<PlacementPolicyId, PlacementPolicy> = {
+  // 靠下(Y)、靠里(Z)、靠左(X)：Y 轴权重最大，模拟重力
+  BOTTOM_LEFT: {
+    id: 'BOTTOM_LEFT',
+    score: box => [box.y, box.z, box.x]
+  },
+  // 极点法：候选位置为已放置货物的角点沿三个轴的投影，货物总是贴着已有货物摆放
+  EXTREME_POINT: {
+    id: 'EXTREME_POINT',
+    useExtremePoints: true,
+    score: box => [box.y, box.z, box.x]
+  },
+  // 最佳适配：放入后所在剩余空间留下的体积最小，优先填满零碎空隙
+  BEST_FIT: {
+    id: 'BEST_FIT',
+    score: (box, space) => [boxVolume(space) - boxVolume(box), box.y, box.z, box.x]
+  },
+  // 砌墙法：从箱底往箱门一面墙一面墙地砌，每面墙自下而上
+  WALL_BUILDING: {
+    id: 'WALL_BUILDING',
+    score: box => [box.x, box.y, box.z]
+  },
+  // 分层法：铺满一层再铺下一层，同一层内优先选择顶面与已有层面齐平的姿态
+  LAYER_BUILDING: {
+    id: 'LAYER_BUILDING',
+    score: (box, _space, ctx) => [
+      box.y,
+      ctx.layerTops.size === 0 || ctx.layerTops.has(box.y + box.h) ? 0 : 1,
+      box.x,
+      box.z
+    ]
+  }
+};
+
+export const PLACEMENT_POLICY_IDS = Object.keys(PLACEMENT_POLICIES) as PlacementPolicyId[];
+
+// 按字典序比较两个评分，a 更好时返回负数
+const compareScores = (a: number[], b: number[]): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+};
+
+// 设置中选择的策略；RACE 表示所有策略都参与构造阶段的比拼
+const resolvePolicies = (options: SolverOptions): PlacementPolicy[] => {
+  if (options.placementPolicy === 'RACE') return PLACEMENT_POLICY_IDS.map(id => PLACEMENT_POLICIES[id]);
+  return [PLACEMENT_POLICIES[options.placementPolicy || 'BOTTOM_LEFT']];
+};
+
 // --- 核心装箱算法实现 ---
 
 /*
-  算法名称：多重起点随机贪婪算法 (Multi-Start Randomized Greedy)
+  算法名称：贪婪构造 + 模拟退火 (Greedy Construction + Simulated Annealing)
   
   原理：
   单一的装箱策略（如只按体积从大到小排）往往会陷入局部最优。
   例如：先把大长条放进去了，结果挡住了后面大方块的位置。
   
   为了解决这个问题，我们采用“元启发式”思想：
-  1. 跑多轮模拟（Trials）。
-  2. 每一轮使用不同的排序策略（按体积排、按底面积排、按长边排）。
-  3. 甚至引入“随机扰动”（Mutation），打破原有顺序，模拟遗传变异。
-  4. 最后在所有模拟结果中，选出装载体积最大的那个方案。
+  1. 构造阶段：用几种不同的排序策略（按体积排、按底面积排、按长边排）各跑一次贪婪装箱，
+     “放在哪里”由摆放策略决定；选择 RACE 时每种摆放策略都参与比拼。
+  2. 搜索阶段：从最好的构造解出发做模拟退火，随机交换装箱顺序、改变物品的优先姿态，
+     更差的解也有一定概率被接受，从而跳出局部最优。
+  3. 所有随机决策都来自带种子的伪随机数生成器，同一个种子总能复现同一个方案。
+  4. 最后在所有评估过的方案中选出最好的那个。
 */
 
-type SortStrategy = 'VOLUME' | 'FOOTPRINT' | 'MAX_DIM' | 'RANDOM_WEIGHTED';
+type SortStrategy = 'VOLUME' | 'FOOTPRINT' | 'MAX_DIM';
+
+// 搜索阶段默认的迭代次数（每次迭代评估一个邻域解）
+export const DEFAULT_SEARCH_ITERATIONS = 24;
+
+// 默认目标：只看装载体积（与引入目标权重之前的行为一致）
+export const DEFAULT_OBJECTIVE: ObjectiveWeights = { volume: 1, weight: 0, value: 0, count: 0, priority: 0 };
+
+const getPriority = (item: CargoItem): number => item.priority ?? 1;
 
 interface TrialResult {
   items: CargoItem[]; // 装箱后的物品列表
   packedVolume: number; // 总装载体积
   packedCount: number; // 成功装入的数量
+  packedWeight: number; // 已装入货物的总重量 (kg)
+  packedValue: number; // 已装入货物的总货值
+  packedPriority: number; // 已装入货物的优先级之和
+  mandatoryMissing: number; // 未能装入的必须发运货物数量
+  balanced: boolean; // 重心是否在允许范围内（已尝试镜像 / 平移平衡）
+  policy: PlacementPolicyId; // 使用的摆放策略
+  alternatives?: TrialResult[]; // 排名紧随其后、布局互不相同的备选结果（由 packBest 填写）
 }
 
 /**
- * 执行单次装箱尝试 (The Core Packer)
- * 这里实现了“剩余空间管理” (Free Space Management) 算法
+ * 集装箱的有效载重上限
+ * maxWeight 未配置 (<= 0) 时视为不限重
  */
-const runPackingTrial = (
-  items: CargoItem[], 
-  container: Dimensions, 
-  strategy: SortStrategy,
-  randomSeed: number // 随机种子，用于生成可复现的随机序列
-): TrialResult => {
-  
-  // 1. 策略排序：决定谁先装
-  // 好的排序是成功的一半。通常“先大后小”是基础。
-  const itemsToPack = [...items].sort((a, b) => {
+const getPayloadLimit = (container: ContainerConfig): number => {
+  return container.maxWeight > 0 ? container.maxWeight : Infinity;
+};
+
+/**
+ * 策略排序：决定谁先装
+ * 好的排序是成功的一半。通常“先大后小”是基础。
+ */
+const sortByStrategy = (items: CargoItem[], strategy: SortStrategy): CargoItem[] => {
+  return [...items].sort((a, b) => {
+    // 必须发运的货物、优先级高的货物先装，同级再按几何策略排序
+    if (!!a.mandatory !== !!b.mandatory) return a.mandatory ? -1 : 1;
+    const priorityDiff = getPriority(b) - getPriority(a);
+    if (priorityDiff !== 0) return priorityDiff;
+
     // 计算基础几何属性
     const volA = a.dimensions.length * a.dimensions.width * a.dimensions.height;
     const volB = b.dimensions.length * b.dimensions.width * b.dimensions.height;
@@ -272,14 +1660,6 @@ const runPackingTrial = (
         if (maxDimA !== maxDimB) score = maxDimB - maxDimA;
         else score = volB - volA;
         break;
-      case 'RANDOM_WEIGHTED':
-        // 带随机扰动的体积优先：
-        // 模拟“退火”或“变异”。在体积排序的基础上增加随机噪音。
-        // 这让算法有机会发现反直觉的组合。
-        const noiseA = Math.sin(a.id.length + randomSeed) * 0.2; 
-        const noiseB = Math.sin(b.id.length + randomSeed) * 0.2;
-        score = (volB * (1 + noiseB)) - (volA * (1 + noiseA));
-        break;
     }
     
     // 次级排序：如果分数接近，按高度降序，保持层级整齐
@@ -288,125 +1668,289 @@ const runPackingTrial = (
     }
     return score;
   });
+};
+
+/**
+ * 执行单次装箱尝试 (The Core Packer)
+ * 这里实现了“剩余空间管理” (Free Space Management) 算法
+ * items 按给定顺序装箱；policy 决定每件物品放在哪个候选位置；
+ * posePreference 记录个别物品优先尝试的姿态序号（由搜索阶段调整）；
+ * fixed 为锁定的物品，保持原位不参与装箱，结果中也不包含它们
+ */
+const runPackingTrial = (
+  items: CargoItem[], 
+  container: ContainerConfig, 
+  policy: PlacementPolicy = PLACEMENT_POLICIES.BOTTOM_LEFT,
+  posePreference: Map<string, number> = new Map(),
+  deadline: number = Infinity, // 时间预算截止时刻 (Date.now())，超时后剩余物品不再尝试
+  fixed: CargoItem[] = [],
+  nesting: boolean = true // 是否尝试竖放圆柱的六角形嵌套位置
+): TrialResult => {
+  
+  // 1. 装箱顺序
+  // 必须发运的货物始终先装，容量不足时留下的是可选货物（即使因此挡住先卸的必须货物，由 validatePlan 标出）
+  // 多站点：越晚卸货的站点越先装（放在最里面），未指定站点的视为最后卸货
+  // 同一站点内，只能放顶层的物品最后装，保证它们落在其他货物之上（sort 是稳定排序，不打乱原有顺序）
+  const itemsToPack = [...items].sort((a, b) =>
+    Number(!!b.mandatory) - Number(!!a.mandatory) ||
+    (b.stop ?? Infinity) - (a.stop ?? Infinity) ||
+    Number(!!a.topOnly) - Number(!!b.topOnly)
+  );
+
+  // 有站点信息时不论何种摆放策略，都先比较 X：由里向外装，保证先卸的货物靠近箱门
+  const hasStops = items.some(i => i.stop !== undefined);
 
   // 2. 初始化剩余空间列表 (Free Spaces)
-  // 一开始，整个集装箱就是一个巨大的剩余空间
-  let freeSpaces: Box[] = [{
-    x: 0, y: 0, z: 0, 
-    l: container.length, h: container.height, w: container.width 
-  }];
+  // 一开始，整个集装箱（含允许伸出的部分）就是一个巨大的剩余空间，再扣除箱内障碍物
+  let freeSpaces: Box[] = getInitialFreeSpaces(container);
+  const envelope = getLoadingEnvelope(container);
 
   const placedItems: CargoItem[] = [];
   let totalPackedVol = 0;
+  let totalPackedWeight = 0;
+  const payloadLimit = getPayloadLimit(container);
+
+  // 堆叠受力记录：下标与已成功放置的物品一一对应
+  const placedBoxes: Box[] = [];
+  const placedItemRefs: CargoItem[] = [];
+  const placedLimits: number[] = [];
+  const placedLoads: number[] = [];
+  const placedSupports: SupportLink[][] = [];
+  const placedAxes: (CylinderAxis | undefined)[] = [];
+  // 可以托住货物的表面：障碍物顶面 + 已放置物品顶面
+  const supportSurfaces: Box[] = getObstacleBoxes(container);
+
+  // 摆放策略的上下文；极点法额外维护一组候选点，初始为各个初始剩余空间的最小角
+  // （原点可能被障碍物占据，允许伸出时包络也不从原点开始）
+  const ctx: PlacementContext = { container, placed: placedBoxes, layerTops: new Set() };
+  let extremePoints: { x: number, y: number, z: number }[] = freeSpaces.map(fs => ({ x: fs.x, y: fs.y, z: fs.z }));
+
+  // 检查把 item 放在 box 位置时，底面是否被充分托住、下方所有支撑物是否承受得住、
+  // 是否会被更晚卸货的货物挡住。满足则返回支撑关系，否则返回 null
+  const tryPlaceAt = (box: Box, item: CargoItem): SupportLink[] | null => {
+    // 支撑面积不足（部分悬空）的位置直接放弃
+    if (getSupportRatio(box, supportSurfaces) < MIN_SUPPORT_RATIO) return null;
+    if (item.stop !== undefined) {
+      for (let j = 0; j < placedBoxes.length; j++) {
+        if (isLaterStop(item, placedItemRefs[j]) && isBlockedBy(box, placedBoxes[j])) return null;
+      }
+    }
+    const links = getSupportLinks(box, placedBoxes);
+    const extra = new Map<number, number>();
+    propagateLoad(links, item.weight, placedSupports, extra);
+    for (const [index, added] of extra) {
+      if (placedLoads[index] + added > placedLimits[index]) return null;
+    }
+    return links;
+  };
+
+  // 记录一件已就位的物品：受力、支撑面、剩余空间和极点都随之更新
+  const occupy = (placedBox: Box, item: CargoItem, links: SupportLink[]) => {
+    totalPackedWeight += item.weight;
+
+    // 记录受力：把新物品的重量沿支撑链传给下方物品
+    const addedLoads = new Map<number, number>();
+    propagateLoad(links, item.weight, placedSupports, addedLoads);
+    addedLoads.forEach((added, index) => { placedLoads[index] += added; });
+    placedBoxes.push(placedBox);
+    supportSurfaces.push(placedBox);
+    placedItemRefs.push(item);
+    placedLimits.push(getStackLimit(item));
+    placedLoads.push(0);
+    placedSupports.push(links);
+    placedAxes.push(getCylinderAxis(item.shape, item.orientation));
+
+    // --- 关键步骤：空间分割 (Space Splitting) ---
+    // 当我们在一个“空盒子”里放了一个物体，这个空盒子就被占据了。
+    // 但物体通常比盒子小，所以会剩下新的空间（上、下、左、右、前、后）。
+    // 我们需要计算新的剩余空间列表。
+
+    // 不允许承重的物品：把它上方整根“柱子”都视为占用，不再产生顶部剩余空间
+    const occupiedBox: Box = getStackLimit(item) === 0
+      ? { ...placedBox, h: envelope.y + envelope.h - placedBox.y }
+      : placedBox;
+
+    // 切割所有与新物体相交的剩余空间，再移除那些被包含在其他大空间里的小空间，防止计算量爆炸
+    freeSpaces = cleanupSpaces(splitSpaces(freeSpaces, occupiedBox));
+
+    ctx.layerTops.add(placedBox.y + placedBox.h);
+    if (policy.useExtremePoints) {
+      // 新物品的三个极点：右侧、上方、前方；只保留仍落在剩余空间里的点
+      extremePoints.push(
+        { x: placedBox.x + placedBox.l, y: placedBox.y, z: placedBox.z },
+        { x: placedBox.x, y: placedBox.y + placedBox.h, z: placedBox.z },
+        { x: placedBox.x, y: placedBox.y, z: placedBox.z + placedBox.w }
+      );
+      const seen = new Set<string>();
+      extremePoints = extremePoints.filter(p => {
+        const key = `${p.x},${p.y},${p.z}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return freeSpaces.some(fs => containsPoint(fs, p));
+      });
+    }
+  };
+
+  // 竖放圆柱的嵌套位置：与已放置的一个竖放圆柱相切并贴住箱壁，或同时与两个圆柱相切
+  // 这些位置的包围盒会与相邻圆柱的包围盒重叠，不在任何剩余空间内，需要单独生成和检查
+  const obstacleBoxes = getObstacleBoxes(container);
+  const getNestedBoxes = (dims: Dimensions): Box[] => {
+    if (dims.length !== dims.width) return [];
+    const r = dims.length / 2;
+    const minX = envelope.x + r, maxX = envelope.x + envelope.l - r;
+    const minZ = envelope.z + r, maxZ = envelope.z + envelope.w - r;
+    const drums = placedBoxes.filter((_, j) => placedAxes[j] === 'y');
+    const centers: [number, number, number][] = []; // [x, z, 底面 y]
+
+    for (let a = 0; a < drums.length; a++) {
+      const A = drums[a];
+      const [ax, az] = getCrossCenter(A, 'y');
+      const da = getCylinderRadius(A, 'y') + r;
+      for (const wallZ of [minZ, maxZ]) {
+        const dz = wallZ - az;
+        if (Math.abs(dz) > da) continue;
+        const dx = Math.sqrt(da * da - dz * dz);
+        centers.push([ax + dx, wallZ, A.y], [ax - dx, wallZ, A.y]);
+      }
+      for (const wallX of [minX, maxX]) {
+        const dx = wallX - ax;
+        if (Math.abs(dx) > da) continue;
+        const dz = Math.sqrt(da * da - dx * dx);
+        centers.push([wallX, az + dz, A.y], [wallX, az - dz, A.y]);
+      }
+      for (let b = a + 1; b < drums.length; b++) {
+        const B = drums[b];
+        if (Math.abs(B.y - A.y) > 1) continue;
+        const [bx, bz] = getCrossCenter(B, 'y');
+        const db = getCylinderRadius(B, 'y') + r;
+        const d = Math.hypot(bx - ax, bz - az);
+        if (d === 0 || d > da + db || d < Math.abs(da - db)) continue;
+        // 两圆交点
+        const along = (da * da - db * db + d * d) / (2 * d);
+        const off = Math.sqrt(Math.max(0, da * da - along * along));
+        const mx = ax + along * (bx - ax) / d, mz = az + along * (bz - az) / d;
+        centers.push(
+          [mx - off * (bz - az) / d, mz + off * (bx - ax) / d, A.y],
+          [mx + off * (bz - az) / d, mz - off * (bx - ax) / d, A.y]
+        );
+      }
+    }
+
+    const boxes: Box[] = [];
+    for (const [cx, cz, y] of centers) {
+      if (cx < minX - 0.01 || cx > maxX + 0.01 || cz < minZ - 0.01 || cz > maxZ + 0.01) continue;
+      const box: Box = { x: cx - r, y, z: cz - r, l: dims.length, h: dims.height, w: dims.width };
+      if (box.y + box.h > envelope.y + envelope.h) continue;
+      if (obstacleBoxes.some(o => boxIntersect(o, box))) continue;
+      if (placedBoxes.some((p, j) => solidsOverlap(box, 'y', p, placedAxes[j]))) continue;
+      boxes.push(box);
+    }
+    return boxes;
+  };
+
+  // 锁定的物品原地不动，当作事先放好的货物：先占据空间、计入载重，其余物品围绕它们装
+  // 按高度从低到高登记，保证压在上面的锁定物品能找到下方的支撑
+  [...fixed].sort((a, b) => a.position[1] - b.position[1]).forEach(item => {
+    const box = itemToBox(item);
+    occupy(box, item, getSupportLinks(box, placedBoxes));
+  });
 
   // 3. 逐个尝试放入物品
   for (const item of itemsToPack) {
-    let bestSpaceIndex = -1;
-    let bestRotation = false; // false=正常, true=旋转90度(交换长宽)
-    let bestScore = Infinity; // 分数越小越好
+    // 时间预算用尽：保留已放置的结果，剩余物品退回待装区
+    if (Date.now() > deadline) {
+      placedItems.push({
+        ...item,
+        position: [0, -9999, 0],
+        isValid: false,
+        stagingReason: 'TIMEOUT'
+      });
+      continue;
+    }
 
-    // 遍历每一个剩余空间，寻找最佳落脚点
-    for (let i = 0; i < freeSpaces.length; i++) {
-      const space = freeSpaces[i];
-      
-      // --- 尝试姿态 A: 正常放置 ---
-      if (item.dimensions.length <= space.l && item.dimensions.height <= space.h && item.dimensions.width <= space.w) {
-        // 评分公式 (Heuristic Score):
-        // 我们希望物体尽可能靠下(Y)、靠里(Z)、靠左(X)。
-        // Y轴权重最大(模拟重力)，Z轴次之(从里往外装)，X轴最小。
-        const score = (space.y * 1000000) + (space.z * 1000) + space.x;
-        if (score < bestScore) {
-          bestScore = score;
-          bestSpaceIndex = i;
-          bestRotation = false;
-        }
-      }
+    // 载重检查：装入后会超过有效载重的物品直接退回待装区，
+    // 但继续尝试后面更轻的物品，尽量用满剩余载重
+    if (totalPackedWeight + item.weight > payloadLimit) {
+      placedItems.push({
+        ...item,
+        position: [0, -9999, 0],
+        isValid: false,
+        stagingReason: 'OVERWEIGHT'
+      });
+      continue;
+    }
 
-      // --- 尝试姿态 B: 旋转放置 (水平旋转90度) ---
-      // 只有当长宽不等时才有尝试价值
-      if (item.dimensions.length !== item.dimensions.width) {
-        // 注意：这里是比较 物品的Width vs 空间的Length，物品的Length vs 空间的Width
-        if (item.dimensions.width <= space.l && item.dimensions.height <= space.h && item.dimensions.length <= space.w) {
-           const score = (space.y * 1000000) + (space.z * 1000) + space.x;
-           if (score < bestScore) {
-             bestScore = score;
-             bestSpaceIndex = i;
-             bestRotation = true;
-           }
-        }
+    // 该物品允许的所有姿态（最多 6 种轴对齐摆放方式），按优先姿态轮转顺序
+    // 不能通过箱门的姿态直接排除
+    const allowedPoses = getAllowedPoses(item).filter(pose => fitsThroughDoor(pose.dims, container));
+    if (allowedPoses.length === 0) {
+      placedItems.push({
+        ...item,
+        position: [0, -9999, 0],
+        isValid: false,
+        stagingReason: 'DOOR_CLEARANCE'
+      });
+      continue;
+    }
+    const shift = (posePreference.get(item.id) || 0) % allowedPoses.length;
+    const poses = [...allowedPoses.slice(shift), ...allowedPoses.slice(0, shift)];
+
+    let bestBox: Box | null = null;
+    let bestPose = poses[0];
+    let bestLinks: SupportLink[] = [];
+    let bestScore: number[] | null = null; // 字典序，越小越好
+
+    // 候选落脚点：剩余空间的角点，或极点法的极点（附带包含该点的剩余空间）
+    const anchors = policy.useExtremePoints
+      ? extremePoints.map(p => ({ ...p, spaces: freeSpaces.filter(fs => containsPoint(fs, p)) }))
+      : freeSpaces.map(fs => ({ x: fs.x, y: fs.y, z: fs.z, spaces: [fs] }));
+
+    // 候选位置：落在某个剩余空间内的位置，加上竖放圆柱的嵌套位置（以自身作为所在空间参与评分）
+    const candidates: { box: Box, space: Box, pose: typeof poses[number] }[] = [];
+    for (const anchor of anchors) {
+      // 依次尝试每种姿态（水平旋转、侧放、平放...）
+      // 同一位置分数相同时，排在前面的姿态（原始姿态）优先
+      for (const pose of poses) {
+        const box: Box = { x: anchor.x, y: anchor.y, z: anchor.z, l: pose.dims.length, h: pose.dims.height, w: pose.dims.width };
+        // 必须完整地落在某个剩余空间内
+        const space = anchor.spaces.find(fs => contains(fs, box));
+        if (space) candidates.push({ box, space, pose });
       }
     }
+    for (const pose of nesting ? poses : []) {
+      if (getCylinderAxis(item.shape, pose.orientation) !== 'y') continue;
+      for (const box of getNestedBoxes(pose.dims)) candidates.push({ box, space: box, pose });
+    }
 
-    if (bestSpaceIndex !== -1) {
-      // --- 放置成功 (Placement Success) ---
-      const space = freeSpaces[bestSpaceIndex];
-      
-      // 确定最终尺寸（是否旋转）
-      const placedWidth = bestRotation ? item.dimensions.length : item.dimensions.width;
-      const placedLength = bestRotation ? item.dimensions.width : item.dimensions.length;
-      
-      const finalDimensions = bestRotation 
-        ? { ...item.dimensions, length: placedLength, width: placedWidth }
-        : item.dimensions;
+    for (const { box, space, pose } of candidates) {
+      const policyScore = policy.score(box, space, ctx);
+      const score = hasStops ? [box.x, ...policyScore] : policyScore;
+      if (bestScore && compareScores(score, bestScore) >= 0) continue;
 
-      // 创建新物体状态
+      // 堆叠规则：底面必须被托住、下方物品必须承受得住、不能被后卸的货物挡住
+      const links = tryPlaceAt(box, item);
+      if (!links) continue;
+      bestScore = score;
+      bestBox = box;
+      bestPose = pose;
+      bestLinks = links;
+    }
+
+    if (bestBox) {
+      // --- 放置成功 (Placement Success) ---
+      // 创建新物体状态（所选姿态的最终尺寸）
       const newItem: CargoItem = {
         ...item,
-        dimensions: finalDimensions,
-        position: [space.x, space.y, space.z],
-        isValid: true
+        dimensions: bestPose.dims,
+        orientation: bestPose.orientation,
+        position: [bestBox.x, bestBox.y, bestBox.z],
+        isValid: true,
+        stagingReason: undefined
       };
       
       placedItems.push(newItem);
-      totalPackedVol += (newItem.dimensions.length * newItem.dimensions.width * newItem.dimensions.height);
-
-      // --- 关键步骤：空间分割 (Space Splitting) ---
-      // 当我们在一个“空盒子”里放了一个物体，这个空盒子就被占据了。
-      // 但物体通常比盒子小，所以会剩下新的空间（上、下、左、右、前、后）。
-      // 我们需要计算新的剩余空间列表。
-      
-      const placedBox: Box = { 
-        x: space.x, y: space.y, z: space.z, 
-        l: placedLength, h: item.dimensions.height, w: placedWidth 
-      };
-      
-      const newFreeSpaces: Box[] = [];
-      
-      // 遍历现有的每一个自由空间，减去被占据的部分
-      for (const fs of freeSpaces) {
-        // 如果这个自由空间和新放的物体有交集，就需要切割
-        if (boxIntersect(fs, placedBox)) {
-          // 切割逻辑：生成最多6个新的矩形空间
-          
-          // 1. 右侧剩余空间
-          if (placedBox.x + placedBox.l < fs.x + fs.l) { 
-            newFreeSpaces.push({ ...fs, x: Math.max(fs.x, placedBox.x + placedBox.l), l: (fs.x + fs.l) - Math.max(fs.x, placedBox.x + placedBox.l) });
-          }
-          // 2. 左侧剩余空间
-          if (placedBox.x > fs.x) { 
-             newFreeSpaces.push({ ...fs, l: placedBox.x - fs.x });
-          }
-          // 3. 上方剩余空间 (Top) - 支持堆叠的关键
-          if (placedBox.y + placedBox.h < fs.y + fs.h) { 
-             newFreeSpaces.push({ ...fs, y: Math.max(fs.y, placedBox.y + placedBox.h), h: (fs.y + fs.h) - Math.max(fs.y, placedBox.y + placedBox.h) });
-          }
-          // 4. 前方剩余空间 (Front/Outwards)
-          if (placedBox.z + placedBox.w < fs.z + fs.w) { 
-             newFreeSpaces.push({ ...fs, z: Math.max(fs.z, placedBox.z + placedBox.w), w: (fs.z + fs.w) - Math.max(fs.z, placedBox.z + placedBox.w) });
-          }
-          // 5. 后方剩余空间 (Back)
-          if (placedBox.z > fs.z) { 
-             newFreeSpaces.push({ ...fs, w: placedBox.z - fs.z });
-          }
-          // (底部一般不需要，因为我们是从下往上堆)
-        } else {
-          // 没有交集，保持原样
-          newFreeSpaces.push(fs);
-        }
-      }
-      
-      // 清理优化：移除那些被包含在其他大空间里的小空间，防止计算量爆炸
-      freeSpaces = cleanupSpaces(newFreeSpaces);
+      totalPackedVol += getItemVolume(newItem);
+      occupy(bestBox, newItem, bestLinks);
 
     } else {
       // --- 放置失败 (Placement Failed) ---
@@ -414,50 +1958,266 @@ const runPackingTrial = (
       placedItems.push({
         ...item,
         position: [0, -9999, 0], // 给个无效坐标
-        isValid: false
+        isValid: false,
+        stagingReason: 'NO_SPACE'
       });
     }
   }
 
+  const packed = placedItems.filter(i => i.isValid);
   return {
     items: placedItems,
     packedVolume: totalPackedVol,
-    packedCount: placedItems.filter(i => i.isValid).length
+    packedCount: packed.length,
+    packedWeight: totalPackedWeight,
+    packedValue: packed.reduce((sum, i) => sum + (i.value || 0), 0),
+    packedPriority: packed.reduce((sum, i) => sum + getPriority(i), 0),
+    mandatoryMissing: placedItems.filter(i => i.mandatory && !i.isValid).length,
+    balanced: true,
+    policy: policy.id
   };
 };
 
 /**
- * 主入口函数：自动装箱 (Auto Pack Manager)
- * 负责调度多次试验，并选出最佳结果
+ * 对单次试验结果做重心平衡，并记录平衡后重心是否在允许范围内
+ * 有锁定物品时不能整体平移（会撞上锁定物品），只评估重心
  */
-export const autoPack = (items: CargoItem[], container: Dimensions): CargoItem[] => {
-  // 定义要进行比拼的策略列表
-  const trials: { strategy: SortStrategy, seed: number }[] = [
-    { strategy: 'VOLUME', seed: 0 },         // 基准线：按体积贪婪
-    { strategy: 'FOOTPRINT', seed: 0 },      // 策略2：按占地面积贪婪
-    { strategy: 'MAX_DIM', seed: 0 },        // 策略3：按最长边贪婪
-    // 元启发式随机尝试 (模拟遗传变异)
-    // 使用不同的种子，让排序产生随机抖动，探索未知的可能性
-    { strategy: 'RANDOM_WEIGHTED', seed: 1 }, 
-    { strategy: 'RANDOM_WEIGHTED', seed: 42 },
-    { strategy: 'RANDOM_WEIGHTED', seed: 123 },
-    { strategy: 'RANDOM_WEIGHTED', seed: 999 },
-  ];
+const balanceTrial = (result: TrialResult, container: ContainerConfig, cogWindow: CogWindow, fixed: CargoItem[] = []): TrialResult => {
+  if (fixed.length > 0) {
+    const loaded = [...fixed, ...result.items.filter(i => i.isValid)];
+    return { ...result, balanced: isCogWithinWindow(getCogOffset(loaded, container), cogWindow) };
+  }
+  const packed = balanceLoad(result.items.filter(i => i.isValid), container, cogWindow);
+  const packedById = new Map(packed.map(i => [i.id, i]));
+  return {
+    ...result,
+    items: result.items.map(i => packedById.get(i.id) || i),
+    balanced: isCogWithinWindow(getCogOffset(packed, container), cogWindow)
+  };
+};
+
+// 构造阶段使用的排序策略
+const CONSTRUCTIVE_STRATEGIES: SortStrategy[] = ['VOLUME', 'FOOTPRINT', 'MAX_DIM'];
+
+// 单个集装箱内要评估的方案总数（构造 + 搜索），用于进度显示
+const countTrials = (options: SolverOptions, items: CargoItem[]): number => {
+  return CONSTRUCTIVE_STRATEGIES.length * resolvePolicies(options).length * getNestingModes(items).length + (options.searchIterations ?? DEFAULT_SEARCH_ITERATIONS);
+};
+
+// 贪心嵌套并不总是更好（如箱宽恰好排满整列时，规则网格反而多装），
+// 有圆柱时构造阶段嵌套与不嵌套各跑一遍
+const getNestingModes = (items: CargoItem[]): boolean[] =>
+  items.some(i => getCylinderAxis(i.shape) !== undefined) ? [true, false] : [true];
+
+// 方案评价标准：同一批货物、同一箱型内的试验结果按它比较
+interface TrialObjective {
+  payloadLimit: number;
+  score: (result: TrialResult) => number; // 加权目标值，越大越好
+}
+
+/**
+ * 按目标权重计算目标值：各项先归一化到 0~1（体积除以 volumeBase，其余除以本批货物的总量），再加权求和
+ */
+const createObjectiveScore = (items: CargoItem[], volumeBase: number, weights: ObjectiveWeights = DEFAULT_OBJECTIVE) => {
+  const totalWeight = items.reduce((sum, i) => sum + i.weight, 0);
+  const totalValue = items.reduce((sum, i) => sum + (i.value || 0), 0);
+  const totalPriority = items.reduce((sum, i) => sum + getPriority(i), 0);
+  const ratio = (part: number, total: number) => total > 0 ? part / total : 0;
+  // 权重归一化，使目标值与各项惩罚保持在同一量级
+  const weightSum = weights.volume + weights.weight + weights.value + weights.count + weights.priority;
+  const w = (weight: number) => weightSum > 0 ? weight / weightSum : 0;
+  return (result: TrialResult): number =>
+    w(weights.volume) * ratio(result.packedVolume, volumeBase) +
+    w(weights.weight) * ratio(result.packedWeight, totalWeight) +
+    w(weights.value) * ratio(result.packedValue, totalValue) +
+    w(weights.count) * ratio(result.packedCount, items.length) +
+    w(weights.priority) * ratio(result.packedPriority, totalPriority);
+};
+
+/**
+ * 同一箱型内比较试验结果：体积按箱内可用容积归一化，即体积利用率
+ */
+const createTrialObjective = (items: CargoItem[], container: ContainerConfig, weights: ObjectiveWeights = DEFAULT_OBJECTIVE): TrialObjective => ({
+  payloadLimit: getPayloadLimit(container),
+  score: createObjectiveScore(items, getUsableVolume(container), weights)
+});
+
+/**
+ * 方案优劣比较：先看是否在载重范围内，再看必须发运的货物是否都已装入、重心是否平衡，最后比目标值
+ */
+const isBetterTrial = (a: TrialResult, b: TrialResult | null, objective: TrialObjective): boolean => {
+  if (!b) return true;
+  const aWithin = a.packedWeight <= objective.payloadLimit;
+  const bWithin = b.packedWeight <= objective.payloadLimit;
+  if (aWithin !== bWithin) return aWithin;
+  if (a.mandatoryMissing !== b.mandatoryMissing) return a.mandatoryMissing < b.mandatoryMissing;
+  if (a.balanced !== b.balanced) return a.balanced;
+  return objective.score(a) > objective.score(b);
+};
+
+/**
+ * 模拟退火用的标量评分（越大越好）：目标值减去超重、漏装必须发运货物、失衡的惩罚
+ */
+const trialFitness = (result: TrialResult, objective: TrialObjective): number => {
+  return objective.score(result)
+    - (result.packedWeight <= objective.payloadLimit ? 0 : 1)
+    - result.mandatoryMissing
+    - (result.balanced ? 0 : 0.1);
+};
+
+// 布局签名：同尺寸货物互换不算不同布局，只比较每个位置上放的是哪种货物、以何种姿态
+const getLayoutSignature = (result: TrialResult): string =>
+  result.items
+    .filter(i => i.isValid)
+    .map(i => `${i.drawingNo}|${i.subDrawingNo || ''}|${i.orientation || 'LWH'}@${Math.round(i.position[0])},${Math.round(i.position[1])},${Math.round(i.position[2])}`)
+    .sort()
+    .join(';');
+
+// 两个结果是否装入了同一批货物
+const samePackedSet = (a: TrialResult, b: TrialResult): boolean => {
+  if (a.packedCount !== b.packedCount) return false;
+  const ids = new Set(a.items.filter(i => i.isValid).map(i => i.id));
+  return b.items.every(i => !i.isValid || ids.has(i.id));
+};
+
+// 搜索状态：装箱顺序 + 各物品的优先姿态（摆放策略沿用构造阶段最好的那个）
+interface SearchState {
+  policy: PlacementPolicy;
+  nesting: boolean;
+  order: CargoItem[];
+  posePreference: Map<string, number>;
+  result: TrialResult;
+}
+
+const sameSize = (a: CargoItem, b: CargoItem): boolean => {
+  const da = getBaseDimensions(a), db = getBaseDimensions(b);
+  return da.length === db.length && da.width === db.width && da.height === db.height;
+};
+
+/**
+ * 邻域操作：随机交换两件货物的顺序、把一件货物挪到别处，或改变一件货物的优先姿态
+ */
+const mutateState = (state: SearchState, rng: () => number): Omit<SearchState, 'result'> => {
+  const order = [...state.order];
+  const posePreference = new Map(state.posePreference);
+  const n = order.length;
+  const pick = () => Math.floor(rng() * n);
+  const roll = rng();
+
+  // 同尺寸货物互换位置不会改变结果，尽量挑一件尺寸不同的
+  const pickDifferent = (i: number) => {
+    let j = pick();
+    for (let tries = 0; tries < 10 && sameSize(order[i], order[j]); tries++) j = pick();
+    return j;
+  };
 
+  if (roll < 0.5) {
+    // 交换
+    const i = pick(), j = pickDifferent(i);
+    [order[i], order[j]] = [order[j], order[i]];
+  } else if (roll < 0.8) {
+    // 插入：把一件货物挪到另一件尺寸不同的货物前面
+    const i = pick(), j = pickDifferent(i);
+    const [moved] = order.splice(i, 1);
+    order.splice(j > i ? j - 1 : j, 0, moved);
+  } else {
+    // 改变优先姿态
+    posePreference.set(order[pick()].id, Math.floor(rng() * 6));
+  }
+  return { policy: state.policy, nesting: state.nesting, order, posePreference };
+};
+
+/**
+ * 在单个集装箱内运行构造 + 搜索，返回最佳结果
+ * 每评估一个方案调用 onTrial（传入目前的最佳结果）；超过 deadline 后不再开始新的评估。
+ * 在不触发时间预算的前提下，同样的 seed 总是得到同样的结果。
+ * fixed 为该集装箱内锁定的物品，所有方案都围绕它们装箱。
+ */
+const packBest = (
+  items: CargoItem[],
+  container: ContainerConfig,
+  options: SolverOptions = {},
+  seed: number = 0,
+  deadline: number = Infinity,
+  onTrial?: (best: TrialResult) => void,
+  fixed: CargoItem[] = []
+): TrialResult => {
   let bestResult: TrialResult | null = null;
+  const objective = createTrialObjective(items, container, options.objective);
+  const cogWindow = options.cogWindow || DEFAULT_COG_WINDOW;
+  // 按优劣保留前 keep 个布局互不相同的结果
+  const keep = Math.max(1, options.alternativePlans ?? 1);
+  const ranked: { result: TrialResult, signature: string }[] = [];
+  const evaluate = (policy: PlacementPolicy, order: CargoItem[], posePreference: Map<string, number>, nesting: boolean) => {
+    const result = balanceTrial(runPackingTrial(order, container, policy, posePreference, deadline, fixed, nesting), container, cogWindow, fixed);
+    if (keep > 1) {
+      const signature = getLayoutSignature(result);
+      if (!ranked.some(r => r.signature === signature)) {
+        const at = ranked.findIndex(r => isBetterTrial(result, r.result, objective));
+        ranked.splice(at < 0 ? ranked.length : at, 0, { result, signature });
+        if (ranked.length > keep) ranked.pop();
+      }
+    }
+    return result;
+  };
 
-  // 并行(同步)运行所有试验
-  for (const trial of trials) {
-    const result = runPackingTrial(items, container, trial.strategy, trial.seed);
-    
-    // 择优标准：目前只看“装载总体积”最大化
-    if (!bestResult || result.packedVolume > bestResult.packedVolume) {
+  // 1. 构造阶段：每种摆放策略 × 每种排序策略（× 是否嵌套）各跑一次，最好的作为搜索起点
+  let current: SearchState | null = null;
+  for (const nesting of getNestingModes(items)) {
+    for (const policy of resolvePolicies(options)) {
+      for (const strategy of CONSTRUCTIVE_STRATEGIES) {
+        if (bestResult && Date.now() > deadline) break;
+        const order = sortByStrategy(items, strategy);
+        const result = evaluate(policy, order, new Map(), nesting);
+        if (isBetterTrial(result, bestResult, objective)) {
+          bestResult = result;
+          current = { policy, nesting, order, posePreference: new Map(), result };
+        }
+        onTrial?.(bestResult!);
+      }
+    }
+  }
+
+  // 2. 搜索阶段：模拟退火
+  // 初始温度约等于 2% 的利用率差，按指数降到 0.1%
+  const iterations = options.searchIterations ?? DEFAULT_SEARCH_ITERATIONS;
+  const rng = createRng(seed);
+  const startTemp = 0.02, endTemp = 0.001;
+  const cooling = iterations > 0 ? Math.pow(endTemp / startTemp, 1 / iterations) : 1;
+  let temperature = startTemp;
+
+  for (let iter = 0; iter < iterations && current && items.length > 1; iter++) {
+    if (Date.now() > deadline) break;
+    const candidate = mutateState(current, rng);
+    const result = evaluate(candidate.policy, candidate.order, candidate.posePreference, candidate.nesting);
+    const delta = trialFitness(result, objective) - trialFitness(current.result, objective);
+
+    // 更好的解总是接受；更差的解以 exp(delta / T) 的概率接受
+    if (delta >= 0 || rng() < Math.exp(delta / temperature)) {
+      current = { ...candidate, result };
+    }
+    if (isBetterTrial(result, bestResult, objective)) {
       bestResult = result;
     }
+    temperature *= cooling;
+    onTrial?.(bestResult!);
   }
 
-  // 最终处理
-  if (!bestResult) return items;
+  if (keep <= 1) return bestResult!;
+  const bestSignature = getLayoutSignature(bestResult!);
+  return { ...bestResult!, alternatives: ranked.filter(r => r.signature !== bestSignature).map(r => r.result) };
+};
+
+/**
+ * 主入口函数：自动装箱 (Auto Pack Manager)
+ * 负责调度多次试验，并选出最佳结果
+ */
+export const autoPack = (items: CargoItem[], container: ContainerConfig, options: SolverOptions = {}): CargoItem[] => {
+  if (items.length === 0) return items;
+  // 集装箱内锁定的物品保持原位，只重新装其余物品
+  const fixed = items.filter(i => i.pinned && getItemZone(i, container) === 'CONTAINER');
+  const movable = items.filter(i => !fixed.includes(i));
+  const bestResult = packBest(movable, container, options, options.seed ?? 0, Infinity, undefined, fixed);
 
   const success = bestResult.items.filter(i => i.isValid);
   const failed = bestResult.items.filter(i => !i.isValid);
@@ -465,15 +2225,243 @@ export const autoPack = (items: CargoItem[], container: Dimensions): CargoItem[]
   // 失败的物品放回待装区
   const stagedFailed = arrangeStaging(failed, container);
 
-  return [...success, ...stagedFailed];
+  return validatePlan([...fixed, ...success, ...stagedFailed]);
 };
 
 export const optimizeLoad = (
   rawRows: ImportedRow[],
-  container: Dimensions
+  container: ContainerConfig,
+  options: SolverOptions = {}
 ): CargoItem[] => {
   const items = createCargoGroups(rawRows);
-  return autoPack(items, container);
+  return autoPack(items, container, options);
+};
+
+// --- 多柜规划 (Fleet Planning) ---
+
+export interface FleetPlan {
+  containers: PlannedContainer[]; // 实际用到的集装箱（按装载顺序）
+  items: CargoItem[]; // 已装货物带 containerId，未装货物在待装区
+  seed: number; // 生成该方案所用的随机种子
+  alternatives?: FleetPlan[]; // 供比较的备选方案（按优劣排序，不含本方案）
+}
+
+// 求解进度：每完成一次试验回报一次
+export interface SolverProgress {
+  containerIndex: number; // 正在规划第几个集装箱（从 0 开始）
+  trial: number;          // 本轮已完成的试验数
+  totalTrials: number;    // 本轮试验总数（每种候选箱型各跑一组）
+  bestUtil: number;       // 本轮目前最佳方案的体积利用率 (%)
+  elapsedMs: number;
+}
+
+export interface SolverHooks {
+  // bestPlan 为目前为止最好的完整方案（未经 validatePlan，可随时拿来使用）
+  onProgress?: (progress: SolverProgress, bestPlan: FleetPlan) => void;
+}
+
+/**
+ * 多柜装箱：把清单分摊到可用箱型中
+ *
+ * 锁定的物品原地保留：current 中含有锁定物品的集装箱按原顺序优先沿用，先围绕锁定物品补装。
+ * 之后按贪婪策略，每一轮为剩余货物选一个集装箱：
+ * 1. 如果某些箱型能一次装下全部剩余货物，选其中最便宜的（成本相同选容积最小的），收尾
+ * 2. 否则选“单位成本目标值”（按 options.objective 加权，默认即装载体积）最大的箱型，装满后继续下一轮
+ * 直到货物装完、可用集装箱用尽或时间预算 (options.timeBudgetMs) 用完
+ */
+export const planFleet = (
+  items: CargoItem[],
+  fleet: FleetEntry[],
+  options: SolverOptions = {},
+  hooks: SolverHooks = {},
+  current: PlannedContainer[] = [] // 当前方案中的集装箱，用于找到锁定物品所在的集装箱
+): FleetPlan => {
+  const objective: FleetObjective = options.fleetObjective || 'FEWEST';
+  const seed = options.seed ?? 0;
+  const startedAt = Date.now();
+  const deadline = options.timeBudgetMs && options.timeBudgetMs > 0 ? startedAt + options.timeBudgetMs : Infinity;
+  const available = fleet.map(f => f.count);
+
+  // 锁定物品按所在集装箱分组；待装区里的物品即使锁定也照常参与装箱
+  const pinnedGroups = current
+    .map(c => ({ config: c.config, fixed: items.filter(i => i.pinned && i.containerId === c.id) }))
+    .filter(g => g.fixed.length > 0);
+  const pinnedIds = new Set(pinnedGroups.flatMap(g => g.fixed.map(i => i.id)));
+  const initial: CargoItem[] = items.filter(i => !pinnedIds.has(i.id)).map(i => ({ ...i, containerId: undefined }));
+  let remaining = initial;
+
+  const costOf = (config: ContainerConfig) => objective === 'CHEAPEST' ? (config.cost ?? 1) : 1;
+  const volumeOf = (config: ContainerConfig) => config.length * config.width * config.height;
+
+  // 一轮装箱的结果：所用箱型、装箱结果以及箱内的锁定物品
+  interface Round {
+    config: ContainerConfig;
+    result: TrialResult;
+    fixed: CargoItem[];
+  }
+
+  const rounds: Round[] = [];
+
+  // 由若干轮结果组装一份完整方案：每轮一个集装箱（按顺序编号 C1、C2…），最后一轮剩下的货物放回待装区
+  const assembleRounds = (planRounds: Round[]): FleetPlan => {
+    const planContainers: PlannedContainer[] = [];
+    const planItems: CargoItem[] = [];
+    let left = initial;
+    for (const round of planRounds) {
+      const containerId = `C${planContainers.length + 1}`;
+      planContainers.push({ id: containerId, config: round.config });
+      planItems.push(...[...round.fixed, ...round.result.items.filter(i => i.isValid)].map(i => ({ ...i, containerId })));
+      left = round.result.items.filter(i => !i.isValid);
+    }
+    // 一个集装箱都没用上时，仍保留第一种箱型用于显示
+    if (planContainers.length === 0 && fleet.length > 0) {
+      planContainers.push({ id: 'C1', config: fleet[0].container });
+    }
+    // 未装下的货物放回待装区
+    const staged = arrangeStaging(
+      left.map(i => ({ ...i, stagingReason: i.stagingReason || 'NO_SPACE' })),
+      planContainers.length > 0 ? planContainers[0].config : { length: 0, width: 0, height: 0 }
+    );
+    return { containers: planContainers, items: [...planItems, ...staged], seed };
+  };
+
+  // 组装一份完整方案：已确定的集装箱 + 本轮候选（可选）+ 待装区
+  const assemble = (extra: Round | null): FleetPlan => assembleRounds(extra ? [...rounds, extra] : rounds);
+
+  // 确定一轮的结果：新开一个集装箱，剩下的货物留给下一轮
+  const commit = (round: Round) => {
+    rounds.push(round);
+    remaining = round.result.items.filter(i => !i.isValid);
+  };
+
+  // 不同箱型之间比较：体积按本轮剩余货物的总体积归一化（而不是各自的容积），
+  // 目标值按箱型成本折算；只看体积时与按“单位成本装载体积”比较等价
+  let roundScore: (result: TrialResult) => number = () => 0; // 每轮开始时按剩余货物重建
+  const roundValue = (round: { config: ContainerConfig, result: TrialResult }) => roundScore(round.result) / costOf(round.config);
+
+  // 进度回报：记录本轮最佳候选，并附上目前最好的完整方案
+  let roundBest: Round | null = null;
+  let trialCount = 0;
+  const startRound = () => {
+    roundBest = null;
+    trialCount = 0;
+    roundScore = createObjectiveScore(remaining, remaining.reduce((sum, i) => sum + getItemVolume(i), 0), options.objective);
+  };
+  const trackTrial = (config: ContainerConfig, fixed: CargoItem[], totalTrials: number) => (best: TrialResult) => {
+    trialCount++;
+    const leader: Round | null = roundBest;
+    if (!leader || roundValue({ config, result: best }) > roundValue(leader)) {
+      roundBest = { config, result: best, fixed };
+    }
+    if (hooks.onProgress && roundBest) {
+      const bestUtil = roundBest.result.packedVolume / volumeOf(roundBest.config) * 100;
+      hooks.onProgress(
+        { containerIndex: rounds.length, trial: trialCount, totalTrials, bestUtil, elapsedMs: Date.now() - startedAt },
+        assemble(roundBest)
+      );
+    }
+  };
+
+  // 1. 先围绕锁定物品补装它们所在的集装箱（占用车队中同名箱型的一个名额）
+  for (const group of pinnedGroups) {
+    const typeIndex = fleet.findIndex((entry, index) => entry.container.name === group.config.name && available[index] > 0);
+    if (typeIndex >= 0) available[typeIndex]--;
+    startRound();
+    const result = packBest(
+      remaining, group.config, options, deriveSeed(seed, rounds.length), deadline,
+      trackTrial(group.config, group.fixed, countTrials(options, remaining)), group.fixed
+    );
+    commit({ config: group.config, result, fixed: group.fixed });
+  }
+
+  // 2. 再为剩余货物逐个选择新的集装箱
+  while (remaining.length > 0) {
+    // 每种还有余量的箱型各跑一组完整的装箱试验
+    const types = fleet
+      .map((entry, index) => ({ index, config: entry.container }))
+      .filter(c => available[c.index] > 0);
+    const totalTrials = types.length * countTrials(options, remaining);
+    startRound();
+
+    const candidates = types
+      .map(c => ({
+        ...c,
+        // 每一轮、每种箱型使用由主种子派生的独立种子
+        result: packBest(remaining, c.config, options, deriveSeed(seed, rounds.length, c.index), deadline, trackTrial(c.config, [], totalTrials))
+      }))
+      .filter(c => c.result.packedCount > 0);
+    if (candidates.length === 0) break;
+
+    const finishing = candidates.filter(c => c.result.packedCount === remaining.length);
+    const chosen = finishing.length > 0
+      ? finishing.reduce((best, c) => {
+          const diff = costOf(c.config) - costOf(best.config);
+          return diff < 0 || (diff === 0 && volumeOf(c.config) < volumeOf(best.config)) ? c : best;
+        })
+      : candidates.reduce((best, c) => roundValue(c) > roundValue(best) ? c : best);
+
+    available[chosen.index]--;
+    commit({ config: chosen.config, result: chosen.result, fixed: [] });
+  }
+
+  // 3. 备选方案：第 k 个备选在每个集装箱上换成该轮第 k 个备选结果（没有则沿用最佳结果）
+  // 后面还有集装箱的轮次只能换成装入同一批货物的备选，保证后续集装箱里的货物不变
+  const alternatives: FleetPlan[] = [];
+  for (let k = 0; k < (options.alternativePlans ?? 1) - 1; k++) {
+    let changed = false;
+    const altRounds = rounds.map((round, r) => {
+      const isLast = r === rounds.length - 1;
+      const choices = (round.result.alternatives || []).filter(alt => isLast || samePackedSet(alt, round.result));
+      if (!choices[k]) return round;
+      changed = true;
+      return { ...round, result: choices[k] };
+    });
+    if (!changed) break;
+    const alt = assembleRounds(altRounds);
+    alternatives.push({ ...alt, items: validatePlan(alt.items, alt.containers) });
+  }
+
+  const plan = assemble(null);
+  return { ...plan, items: validatePlan(plan.items, plan.containers), alternatives };
+};
+
+// 方案比较用的汇总指标
+export interface PlanSummary {
+  containerCount: number;
+  util: number; // 所有集装箱合计的体积利用率 (%)
+  packedCount: number;
+  totalWeight: number; // 已装货物总重 (kg)
+  cogOffset: { x: number, z: number }; // 偏离最大的集装箱的重心偏移比例
+  cogStatus: 'OK' | 'OUT_OF_WINDOW'; // 任一集装箱超出范围即为 OUT_OF_WINDOW
+  rotatedCount: number; // 未按原始姿态摆放的货物数量（手工装载时需要翻转）
+}
+
+/**
+ * 汇总一份方案的关键指标
+ */
+export const summarizePlan = (plan: FleetPlan, cogWindow: CogWindow = DEFAULT_COG_WINDOW): PlanSummary => {
+  const perContainer = plan.containers.map(c => computeLoadStats(plan.items.filter(i => i.containerId === c.id), c.config, cogWindow));
+  const loaded = plan.items.filter(i => i.containerId);
+  const usable = plan.containers.reduce((sum, c) => sum + getUsableVolume(c.config), 0);
+  const worst = perContainer.reduce<LoadStats | null>((w, st) =>
+    !w || Math.max(Math.abs(st.cogOffset.x), Math.abs(st.cogOffset.z)) > Math.max(Math.abs(w.cogOffset.x), Math.abs(w.cogOffset.z)) ? st : w, null);
+  return {
+    containerCount: plan.containers.length,
+    util: usable > 0 ? loaded.reduce((sum, i) => sum + getItemVolume(i), 0) / usable * 100 : 0,
+    packedCount: loaded.length,
+    totalWeight: loaded.reduce((sum, i) => sum + i.weight, 0),
+    cogOffset: worst ? worst.cogOffset : { x: 0, z: 0 },
+    cogStatus: perContainer.every(st => st.cogStatus === 'OK') ? 'OK' : 'OUT_OF_WINDOW',
+    rotatedCount: loaded.filter(i => (i.orientation || 'LWH') !== 'LWH').length
+  };
+};
+
+export const optimizeFleet = (
+  rawRows: ImportedRow[],
+  fleet: FleetEntry[],
+  options: SolverOptions = {}
+): FleetPlan => {
+  return planFleet(createCargoGroups(rawRows), fleet, options);
 };
 
 
@@ -491,6 +2479,44 @@ function boxIntersect(a: Box, b: Box): boolean {
   );
 }
 
+// 空间分割：从每个与 occupied 相交的剩余空间中减去被占据的部分，
+// 生成最多 5 个新的矩形空间（上、左、右、前、后）
+function splitSpaces(spaces: Box[], occupied: Box): Box[] {
+  const result: Box[] = [];
+  for (const fs of spaces) {
+    // 没有交集，保持原样
+    if (!boxIntersect(fs, occupied)) {
+      result.push(fs);
+      continue;
+    }
+    // 1. 右侧剩余空间
+    if (occupied.x + occupied.l < fs.x + fs.l) {
+      result.push({ ...fs, x: Math.max(fs.x, occupied.x + occupied.l), l: (fs.x + fs.l) - Math.max(fs.x, occupied.x + occupied.l) });
+    }
+    // 2. 左侧剩余空间
+    if (occupied.x > fs.x) {
+      result.push({ ...fs, l: occupied.x - fs.x });
+    }
+    // 3. 上方剩余空间 (Top) - 支持堆叠的关键
+    if (occupied.y + occupied.h < fs.y + fs.h) {
+      result.push({ ...fs, y: Math.max(fs.y, occupied.y + occupied.h), h: (fs.y + fs.h) - Math.max(fs.y, occupied.y + occupied.h) });
+    }
+    // 4. 下方剩余空间 (Bottom) - 障碍物可能悬在半空，货物也能塞到它下面
+    if (occupied.y > fs.y) {
+      result.push({ ...fs, h: occupied.y - fs.y });
+    }
+    // 5. 前方剩余空间 (Front/Outwards)
+    if (occupied.z + occupied.w < fs.z + fs.w) {
+      result.push({ ...fs, z: Math.max(fs.z, occupied.z + occupied.w), w: (fs.z + fs.w) - Math.max(fs.z, occupied.z + occupied.w) });
+    }
+    // 6. 后方剩余空间 (Back)
+    if (occupied.z > fs.z) {
+      result.push({ ...fs, w: occupied.z - fs.z });
+    }
+  }
+  return result;
+}
+
 // 空间清理：移除冗余空间
 function cleanupSpaces(spaces: Box[]): Box[] {
   // 排序有助于加速包含检测
@@ -517,6 +2543,15 @@ function cleanupSpaces(spaces: Box[]): Box[] {
   return result;
 }
 
+// 判断点是否落在空间内（含起始面，不含结束面）
+function containsPoint(space: Box, p: { x: number, y: number, z: number }): boolean {
+  return (
+    p.x >= space.x && p.x < space.x + space.l &&
+    p.y >= space.y && p.y < space.y + space.h &&
+    p.z >= space.z && p.z < space.z + space.w
+  );
+}
+
 // 判断 outer 是否完全包含 inner
 function contains(outer: Box, inner: Box): boolean {
   return (
@@ -0,0 +1,21 @@
+import { planFleet } from './packingAlgorithm';
+import { SolveRequest, SolverMessage } from './solverProtocol';
+
+// 求解 Worker：在后台线程运行装箱引擎，避免大清单卡住界面
+// 取消由主线程直接 terminate() 实现，因此这里无需处理取消消息
+
+const post = (message: SolverMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SolveRequest>) => {
+  const request = event.data;
+  if (request.type !== 'solve') return;
+
+  try {
+    const plan = planFleet(request.items, request.fleet, request.options, {
+      onProgress: (progress, bestPlan) => post({ type: 'progress', progress, bestPlan })
+    }, request.containers);
+    post({ type: 'done', plan });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
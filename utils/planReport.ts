@@ -0,0 +1,195 @@
+import { CargoItem, CogWindow, PlannedContainer, SubItem } from '../types';
+import { analyzeVoids, getOrientedSubItems, getPalletContents, mergeSecuringMaterials, planLoadingSteps, LoadingStep, LoadStats, SecuringMaterial, SecuringOptions, VoidAnalysis } from './packingAlgorithm';
+import { translations } from './i18n';
+
+// --- 装载报告 (Plan Report) ---
+// PDF 与 Excel 导出共用同一份报告数据，各自只负责排版
+
+export const isOutOfBounds = (item: CargoItem): boolean => !!item.issues?.includes('OUT_OF_BOUNDS');
+
+// 装载清单中的一行：货物本身，或组合件下属的零件（零件不单独编号）
+export interface ReportItemRow {
+  index: number | null;
+  drawingNo: string;
+  subDrawingNo: string;
+  length: number;
+  width: number;
+  height: number;
+  weight: number;
+  x: number;
+  y: number;
+  z: number;
+  orientation: string;
+  isPart: boolean;
+}
+
+export interface PalletLine {
+  drawingNo: string;
+  subDrawingNo: string;
+  qty: number;
+  weight: number;
+}
+
+export interface ContainerReport {
+  planned: PlannedContainer;
+  stats: LoadStats;
+  analysisRows: string[][]; // [指标, 数值, 状态]
+  itemRows: ReportItemRow[];
+  pallets: { pallet: CargoItem, lines: PalletLine[] }[];
+  outOfBoundsItems: CargoItem[];
+  securing: VoidAnalysis;
+  steps: LoadingStep[];
+}
+
+// 按图号汇总（组合件和托盘拆开到零件）
+export interface DrawingTotal {
+  drawingNo: string;
+  subDrawingNo: string;
+  totalQty: number;
+  loadedQty: number;
+  loadedWeight: number;
+  stagedQty: number;
+}
+
+// 图号在各集装箱中的装载位置（装载说明用）
+export interface DrawingLocation {
+  drawingNo: string;
+  subDrawingNo: string;
+  containerId: string;
+  qty: number;
+  steps: number[];
+}
+
+export interface PlanReport {
+  containers: ContainerReport[];
+  drawingTotals: DrawingTotal[];
+  drawingLocations: DrawingLocation[];
+  securingTotal: SecuringMaterial[];
+  mandatoryMissing: CargoItem[];
+}
+
+// 货物拆到最小装箱单位：托盘上的纸箱、组合件的零件，普通货物就是它本身
+const getLeafParts = (item: CargoItem): { drawingNo: string, subDrawingNo: string, weight: number }[] => {
+  const parts: SubItem[] = item.pallet ? getPalletContents(item) : getOrientedSubItems(item);
+  return parts.length > 0 ? parts : [{ drawingNo: item.drawingNo, subDrawingNo: item.subDrawingNo || '', weight: item.weight }];
+};
+
+export const toItemRows = (item: CargoItem, index: number): ReportItemRow[] => [
+  {
+    index,
+    drawingNo: item.drawingNo,
+    subDrawingNo: item.subDrawingNo || '',
+    length: item.dimensions.length,
+    width: item.dimensions.width,
+    height: item.dimensions.height,
+    weight: item.weight,
+    x: Math.round(item.position[0]),
+    y: Math.round(item.position[1]),
+    z: Math.round(item.position[2]),
+    orientation: item.orientation || 'LWH',
+    isPart: false
+  },
+  // 托盘内容单独按托盘汇总，这里只展开组合件
+  ...(item.pallet ? [] : getOrientedSubItems(item)).map(part => ({
+    index: null,
+    drawingNo: part.drawingNo,
+    subDrawingNo: part.subDrawingNo,
+    length: part.dimensions.length,
+    width: part.dimensions.width,
+    height: part.dimensions.height,
+    weight: part.weight,
+    x: Math.round(item.position[0] + part.relativePosition[0]),
+    y: Math.round(item.position[1] + part.relativePosition[1]),
+    z: Math.round(item.position[2] + part.relativePosition[2]),
+    orientation: part.orientation || 'LWH',
+    isPart: true
+  }))
+];
+
+const getPalletLines = (pallet: CargoItem): PalletLine[] => {
+  const lines = new Map<string, PalletLine>();
+  getPalletContents(pallet).forEach(part => {
+    const key = `${part.drawingNo}|${part.subDrawingNo}`;
+    const line = lines.get(key) || { drawingNo: part.drawingNo, subDrawingNo: part.subDrawingNo, qty: 0, weight: 0 };
+    line.qty++;
+    line.weight += part.weight;
+    lines.set(key, line);
+  });
+  return [...lines.values()];
+};
+
+/**
+ * 汇总整个方案的报告数据
+ * containerStats 为各集装箱的装载统计（与界面上显示的一致）
+ */
+export const buildPlanReport = (
+  items: CargoItem[],
+  containerStats: { container: PlannedContainer, stats: LoadStats }[],
+  cogWindow: CogWindow,
+  securingOptions: SecuringOptions
+): PlanReport => {
+  const en = translations.en;
+
+  const containers = containerStats.map(({ container: planned, stats }): ContainerReport => {
+    // 越界物品不计入装载清单，单独列出提示
+    const packedItems = items.filter(i => i.containerId === planned.id && !isOutOfBounds(i));
+    return {
+      planned,
+      stats,
+      analysisRows: [
+        ["Total Loaded Weight", `${stats.totalWeight.toFixed(2)} kg`, en.weightStatus[stats.weightStatus]],
+        ["Volume Utilization", `${stats.util.toFixed(2)} %`, `${stats.volM3.toFixed(2)} m3`],
+        ["Loaded Item Count", `${stats.loadedCount} pcs`, ""],
+        ["CoG (X, Y, Z)", `${stats.cog.x}, ${stats.cog.y}, ${stats.cog.z} mm`, "Ref: Corner"],
+        [
+          "CoG Offset (Long / Lat)",
+          `${(stats.cogOffset.x * 100).toFixed(1)} % / ${(stats.cogOffset.z * 100).toFixed(1)} %`,
+          `${en.cogStatus[stats.cogStatus]} (±${(cogWindow.longitudinal * 100).toFixed(0)}% / ±${(cogWindow.lateral * 100).toFixed(0)}%)`
+        ]
+      ],
+      itemRows: packedItems.flatMap((item, idx) => toItemRows(item, idx + 1)),
+      pallets: packedItems.filter(item => item.pallet).map(pallet => ({ pallet, lines: getPalletLines(pallet) })),
+      outOfBoundsItems: items.filter(i => i.containerId === planned.id && isOutOfBounds(i)),
+      securing: analyzeVoids(packedItems, planned.config, securingOptions),
+      steps: planLoadingSteps(packedItems)
+    };
+  });
+
+  const totals = new Map<string, DrawingTotal>();
+  items.forEach(item => {
+    const loaded = !!item.containerId && !isOutOfBounds(item);
+    getLeafParts(item).forEach(part => {
+      const key = `${part.drawingNo}|${part.subDrawingNo}`;
+      const total = totals.get(key) || { drawingNo: part.drawingNo, subDrawingNo: part.subDrawingNo, totalQty: 0, loadedQty: 0, loadedWeight: 0, stagedQty: 0 };
+      total.totalQty++;
+      if (loaded) {
+        total.loadedQty++;
+        total.loadedWeight += part.weight;
+      } else {
+        total.stagedQty++;
+      }
+      totals.set(key, total);
+    });
+  });
+
+  const locations = new Map<string, DrawingLocation>();
+  containers.forEach(({ planned, steps }) => steps.forEach(step => step.entries.forEach(({ item }) => {
+    getLeafParts(item).forEach(part => {
+      const key = `${planned.id}|${part.drawingNo}|${part.subDrawingNo}`;
+      const location = locations.get(key) || { drawingNo: part.drawingNo, subDrawingNo: part.subDrawingNo, containerId: planned.id, qty: 0, steps: [] };
+      location.qty++;
+      if (!location.steps.includes(step.index)) location.steps.push(step.index);
+      locations.set(key, location);
+    });
+  })));
+
+  return {
+    containers,
+    drawingLocations: [...locations.values()].sort((a, b) =>
+      a.drawingNo.localeCompare(b.drawingNo) || a.subDrawingNo.localeCompare(b.subDrawingNo) || a.steps[0] - b.steps[0]
+    ),
+    drawingTotals: [...totals.values()].sort((a, b) => a.drawingNo.localeCompare(b.drawingNo) || a.subDrawingNo.localeCompare(b.subDrawingNo)),
+    securingTotal: mergeSecuringMaterials(containers.map(c => c.securing.materials)),
+    mandatoryMissing: items.filter(i => i.issues?.includes('MANDATORY_UNLOADED'))
+  };
+};
@@ -0,0 +1,151 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ContainerConfig, ImportedRow } from '../types';
+import { createCargoGroups } from './packingAlgorithm';
+import {
+  clearAutosave, createProject, getProjectFingerprint, parseProject, PROJECT_FORMAT, PROJECT_VERSION,
+  ProjectFile, readAutosave, serializeProject, writeAutosave
+} from './projectFile';
+
+const CONFIG: ContainerConfig = { name: 'Test', length: 6000, width: 2400, height: 2400, maxWeight: 20000 };
+const MANIFEST: ImportedRow[] = [{ mainDrawingNo: 'A', subDrawingNo: 'A-1', length: 1000, width: 1000, height: 1000, quantity: 2, weight: 100 }];
+
+const sampleProject = (): ProjectFile => {
+  const [loaded, staged] = createCargoGroups(MANIFEST);
+  return createProject({
+    containers: [{ id: 'C1', config: CONFIG }],
+    activeContainerId: 'C1',
+    manifest: MANIFEST,
+    items: [
+      { ...loaded, position: [0, 0, 0], containerId: 'C1', pinned: true },
+      { ...staged, position: [0, 0, 3900] }
+    ],
+    planSeed: 42,
+    settings: { timeBudgetSec: 5, seedInput: '42' }
+  });
+};
+
+// 以 JSON 对象修改文件内容后再解析，模拟手工编辑或损坏的文件
+const parseEdited = (edit: (data: Record<string, any>) => void) => {
+  const data = JSON.parse(serializeProject(sampleProject()));
+  edit(data);
+  return parseProject(JSON.stringify(data));
+};
+
+const loadedProject = (result: ReturnType<typeof parseProject>) => {
+  if (!('project' in result)) throw new Error(`unexpected error ${result.error}`);
+  return result;
+};
+
+describe('parseProject', () => {
+  it('reads back what was saved', () => {
+    const original = sampleProject();
+    const { project, skippedItems } = loadedProject(parseProject(serializeProject(original)));
+    expect(skippedItems).toBe(0);
+    expect(project.containers).toEqual(original.containers);
+    expect(project.manifest).toEqual(original.manifest);
+    expect(project.planSeed).toBe(42);
+    expect(project.settings).toEqual({ timeBudgetSec: 5, seedInput: '42' });
+    expect(project.items.map(i => [i.id, i.position, i.containerId, !!i.pinned])).toEqual(
+      original.items.map(i => [i.id, i.position, i.containerId, !!i.pinned])
+    );
+    expect(project.items.every(i => i.isValid && !i.selected)).toBe(true);
+  });
+
+  it('rejects files that are not projects or come from a newer version', () => {
+    expect(parseProject('not json')).toEqual({ error: 'INVALID_FILE' });
+    expect(parseProject(JSON.stringify({ format: 'other', version: 1 }))).toEqual({ error: 'INVALID_FILE' });
+    expect(parseProject(JSON.stringify({ format: PROJECT_FORMAT, version: 0 }))).toEqual({ error: 'INVALID_FILE' });
+    expect(parseEdited(data => { data.version = PROJECT_VERSION + 1; })).toEqual({ error: 'NEWER_VERSION' });
+  });
+
+  it('rejects the file when a container is invalid', () => {
+    expect(parseEdited(data => { data.containers[0].config.length = -1; })).toEqual({ error: 'INVALID_FILE' });
+    expect(parseEdited(data => { data.containers.push(data.containers[0]); })).toEqual({ error: 'INVALID_FILE' });
+    expect(parseEdited(data => { data.items = 'none'; })).toEqual({ error: 'INVALID_FILE' });
+  });
+
+  it('keeps only the known container fields and accepts an unlimited payload', () => {
+    const { project } = loadedProject(parseEdited(data => {
+      Object.assign(data.containers[0].config, { maxWeight: 0, door: { width: 2300, height: 2200, extra: 1 }, script: 'x' });
+    }));
+    expect(project.containers[0].config).toEqual({ ...CONFIG, maxWeight: 0, door: { width: 2300, height: 2200 } });
+  });
+
+  it('skips malformed items instead of loading them', () => {
+    const result = loadedProject(parseEdited(data => {
+      const [item] = data.items;
+      data.items.push(
+        null,
+        { ...item, id: 'bad-dims', dimensions: { length: 0, width: 1, height: 1 } },
+        { ...item, id: 'bad-position', position: [0, 'x', 0] },
+        { ...item, id: 'bad-pose', orientationRule: 'FIXED', orientation: 'WLH' },
+        { ...item, id: 'bad-rule', maxStackLoad: 'heavy' },
+        { ...item }
+      );
+    }));
+    expect(result.skippedItems).toBe(6);
+    expect(result.project.items).toHaveLength(2);
+  });
+
+  it('repairs display fields and unknown references', () => {
+    const { project, skippedItems } = loadedProject(parseEdited(data => {
+      data.items[0].color = 42;
+      data.items[0].containerId = 'C9';
+      data.activeContainerId = 'C9';
+      data.manifest.push({ mainDrawingNo: 'B' });
+      data.settings.timeBudgetSec = 'soon';
+    }));
+    expect(skippedItems).toBe(0);
+    expect(typeof project.items[0].color).toBe('string');
+    expect(project.items[0].containerId).toBeUndefined();
+    expect(project.activeContainerId).toBe('C1');
+    expect(project.manifest).toHaveLength(1);
+    expect(project.settings).toEqual({ seedInput: '42' });
+  });
+});
+
+describe('getProjectFingerprint', () => {
+  it('ignores the save time and selection but not the plan', () => {
+    const project = sampleProject();
+    const same = { ...project, savedAt: '2000-01-01T00:00:00.000Z', items: project.items.map(i => ({ ...i, selected: true })) };
+    expect(getProjectFingerprint(same)).toBe(getProjectFingerprint(project));
+    const moved = { ...project, items: project.items.map((i, idx) => idx === 0 ? { ...i, position: [1000, 0, 0] as [number, number, number] } : i) };
+    expect(getProjectFingerprint(moved)).not.toBe(getProjectFingerprint(project));
+  });
+});
+
+describe('autosave', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const stubStorage = () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => { store.set(key, value); },
+      removeItem: (key: string) => { store.delete(key); }
+    });
+    return store;
+  };
+
+  it('writes, restores and clears the autosave', () => {
+    stubStorage();
+    const project = sampleProject();
+    expect(readAutosave()).toBeNull();
+    expect(writeAutosave(project)).toBe(true);
+    expect(readAutosave()!.items.map(i => i.id)).toEqual(project.items.map(i => i.id));
+    clearAutosave();
+    expect(readAutosave()).toBeNull();
+  });
+
+  it('ignores a corrupt autosave', () => {
+    const store = stubStorage();
+    writeAutosave(sampleProject());
+    store.forEach((_, key) => store.set(key, '{"format":'));
+    expect(readAutosave()).toBeNull();
+  });
+
+  it('reports a failed write instead of throwing', () => {
+    vi.stubGlobal('localStorage', { setItem: () => { throw new Error('QuotaExceededError'); } });
+    expect(writeAutosave(sampleProject())).toBe(false);
+  });
+});
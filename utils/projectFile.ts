@@ -0,0 +1,394 @@
+import { CargoItem, CargoShape, ContainerConfig, ContainerObstacle, Dimensions, FleetEntry, FleetObjective, CogWindow, ImportedRow, LoadAllowance, ObjectiveWeights, Orientation, OrientationRule, PalletTemplate, PlacementPolicyId, PlannedContainer, StagingReason, SubItem } from '../types';
+import { isAllowedOrientation, validatePlan, PLACEMENT_POLICY_IDS, SecuringOptions } from './packingAlgorithm';
+
+// --- 项目文件 (Project File) ---
+// 整个方案（集装箱、清单、每件货物的位置姿态和标记、求解设置）保存为带版本号的 JSON。
+// 格式变化时提升 PROJECT_VERSION 并在 MIGRATIONS 中登记升级步骤，旧文件打开时逐版升级到当前版本
+
+export const PROJECT_FORMAT = 'smartcontainer-project';
+export const PROJECT_VERSION = 1;
+
+export interface ProjectSettings {
+  fleet: FleetEntry[];
+  fleetObjective: FleetObjective;
+  cogWindow: CogWindow;
+  timeBudgetSec: number;
+  searchIterations: number;
+  objective: ObjectiveWeights;
+  alternativePlans: number;
+  placementPolicy: PlacementPolicyId | 'RACE';
+  seedInput: string;
+  securingOptions: SecuringOptions;
+  palletTemplate: PalletTemplate;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string; // ISO 时间
+  containers: PlannedContainer[];
+  activeContainerId: string;
+  manifest: ImportedRow[];
+  items: CargoItem[];
+  planSeed: number | null;
+  settings: Partial<ProjectSettings>; // 读入时只保留合法的设置项，缺失的由调用方用当前值补齐
+}
+
+export type ProjectErrorCode = 'INVALID_FILE' | 'NEWER_VERSION';
+
+export type ProjectLoadResult =
+  | { project: ProjectFile, skippedItems: number } // skippedItems：数据损坏、未能读入的货物件数
+  | { error: ProjectErrorCode };
+
+type JsonObject = Record<string, unknown>;
+
+// 版本迁移：MIGRATIONS[n] 把第 n 版的数据升级为第 n + 1 版
+const MIGRATIONS: Record<number, (data: JsonObject) => JsonObject> = {};
+
+export const createProject = (state: Omit<ProjectFile, 'format' | 'version' | 'savedAt'>): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  ...state
+});
+
+export const serializeProject = (project: ProjectFile): string => JSON.stringify(project);
+
+/**
+ * 方案内容的指纹：与保存时间、选中状态无关，用于判断是否有未保存的修改
+ */
+export const getProjectFingerprint = (project: ProjectFile): string =>
+  JSON.stringify({ ...project, savedAt: '', items: project.items.map(item => ({ ...item, selected: false })) });
+
+// --- 文件内容校验 (Validation) ---
+// 文件可能被手工修改，自动保存也可能损坏：逐项检查后才放进界面状态
+
+type Check = (value: unknown) => boolean;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPositive = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+const isNonNegative = (value: unknown): value is number => isFiniteNumber(value) && value >= 0;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value !== '';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isBoolean: Check = value => typeof value === 'boolean';
+
+const isOneOf = (options: readonly string[]): Check => value => typeof value === 'string' && options.includes(value);
+
+const isVector = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+
+const isDimensions = (value: unknown): value is Dimensions =>
+  isObject(value) && isPositive(value.length) && isPositive(value.width) && isPositive(value.height);
+
+const toDimensions = (value: Dimensions): Dimensions => ({ length: value.length, width: value.width, height: value.height });
+
+const ORIENTATION_RULES: OrientationRule[] = ['ANY', 'UPRIGHT', 'FIXED'];
+const SHAPES: CargoShape[] = ['BOX', 'CYLINDER_UPRIGHT', 'CYLINDER_LYING'];
+const STAGING_REASONS: StagingReason[] = ['NO_SPACE', 'OVERWEIGHT', 'TIMEOUT', 'DOOR_CLEARANCE'];
+const FALLBACK_COLOR = '#9ca3af';
+
+// 装箱规则字段：存在但不合法时整件货物作废，不能悄悄放宽约束
+const RULE_FIELDS: Record<string, Check> = {
+  orientationRule: isOneOf(ORIENTATION_RULES),
+  maxStackLoad: isFiniteNumber,
+  nonStackable: isBoolean,
+  topOnly: isBoolean,
+  stop: isFiniteNumber,
+  shape: isOneOf(SHAPES),
+  mandatory: isBoolean,
+  priority: isFiniteNumber,
+  value: isFiniteNumber
+};
+
+// 只影响显示或提示的字段：不合法时丢弃
+const ITEM_DISPLAY_FIELDS: Record<string, Check> = {
+  subDrawingNo: isString,
+  stagingReason: isOneOf(STAGING_REASONS),
+  pinned: isBoolean,
+  pallet: isString,
+  expanded: isBoolean
+};
+
+// 允许伸出箱体的距离
+const ALLOWANCE_FIELDS: Record<string, Check> = {
+  top: isNonNegative,
+  side: isNonNegative,
+  end: isNonNegative
+};
+
+// 清单行的可选列（orientation 在清单中是姿态约束）
+const ROW_FIELDS: Record<string, Check> = {
+  ...RULE_FIELDS,
+  orientation: isOneOf(ORIENTATION_RULES),
+  kitQuantity: isFiniteNumber
+};
+
+/**
+ * 按字段表挑出合法的可选字段；strict 时遇到不合法的字段返回 null
+ */
+const pickFields = <T,>(raw: JsonObject, fields: Record<string, Check>, strict: boolean): Partial<T> | null => {
+  const picked: JsonObject = {};
+  for (const [key, check] of Object.entries(fields)) {
+    const value = raw[key];
+    if (value === undefined || value === null) continue;
+    if (check(value)) picked[key] = value;
+    else if (strict) return null;
+  }
+  return picked as Partial<T>;
+};
+
+// 姿态与尺寸互相对应，不合法时无法修复
+const readOrientation = (value: unknown, rule: OrientationRule = 'ANY'): Orientation | undefined | null => {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'string' && isAllowedOrientation(value, rule) ? value : null;
+};
+
+const readSubItem = (raw: unknown): SubItem | null => {
+  if (
+    !isObject(raw) || !isNonEmptyString(raw.id) || !isString(raw.drawingNo) || !isDimensions(raw.dimensions) ||
+    !isVector(raw.relativePosition) || !isFiniteNumber(raw.weight) || raw.weight < 0
+  ) {
+    return null;
+  }
+  const rules = pickFields<SubItem>(raw, RULE_FIELDS, true);
+  const orientation = readOrientation(raw.orientation);
+  if (!rules || orientation === null) return null;
+  return {
+    ...rules,
+    id: raw.id,
+    drawingNo: raw.drawingNo,
+    subDrawingNo: typeof raw.subDrawingNo === 'string' ? raw.subDrawingNo : '',
+    dimensions: toDimensions(raw.dimensions),
+    relativePosition: [...raw.relativePosition],
+    color: typeof raw.color === 'string' ? raw.color : FALLBACK_COLOR,
+    weight: raw.weight,
+    orientation,
+    isPalletDeck: raw.isPalletDeck === true ? true : undefined
+  };
+};
+
+/**
+ * 校验一件货物；编号、尺寸、位置、重量、姿态或组合件零件不合法时返回 null
+ * 颜色、所属集装箱等可以修复的字段改为默认值
+ */
+const readItem = (raw: unknown, containerIds: Set<string>): CargoItem | null => {
+  if (
+    !isObject(raw) || !isNonEmptyString(raw.id) || !isString(raw.drawingNo) || !isDimensions(raw.dimensions) ||
+    !isVector(raw.position) || !isFiniteNumber(raw.weight) || raw.weight < 0
+  ) {
+    return null;
+  }
+  const rules = pickFields<CargoItem>(raw, RULE_FIELDS, true);
+  if (!rules) return null;
+  const orientation = readOrientation(raw.orientation, rules.orientationRule);
+  if (orientation === null) return null;
+
+  let subItems: SubItem[] | undefined;
+  if (raw.subItems !== undefined && raw.subItems !== null) {
+    if (!Array.isArray(raw.subItems)) return null;
+    const parts = raw.subItems.map(readSubItem);
+    if (parts.some(part => part === null)) return null;
+    subItems = parts as SubItem[];
+  }
+
+  return {
+    ...pickFields<CargoItem>(raw, ITEM_DISPLAY_FIELDS, false),
+    ...rules,
+    id: raw.id,
+    drawingNo: raw.drawingNo,
+    dimensions: toDimensions(raw.dimensions),
+    position: [...raw.position],
+    color: typeof raw.color === 'string' ? raw.color : FALLBACK_COLOR,
+    weight: raw.weight,
+    orientation,
+    subItems,
+    isGroup: raw.isGroup === true && !!subItems?.length ? true : undefined,
+    // 指向不存在的集装箱时退回待装区
+    containerId: typeof raw.containerId === 'string' && containerIds.has(raw.containerId) ? raw.containerId : undefined,
+    // 选中和校验状态不属于方案本身，读入后重新计算
+    selected: false,
+    isValid: true
+  };
+};
+
+const readObstacle = (raw: unknown): ContainerObstacle | null => {
+  if (!isObject(raw) || !isVector(raw.position) || !isDimensions(raw.dimensions)) return null;
+  return {
+    ...(isString(raw.name) ? { name: raw.name } : {}),
+    position: [raw.position[0], raw.position[1], raw.position[2]],
+    dimensions: toDimensions(raw.dimensions)
+  };
+};
+
+// 只复制校验过的字段；maxWeight 为 0 表示不限重
+const readContainerConfig = (raw: unknown): ContainerConfig | null => {
+  if (!isObject(raw) || !isDimensions(raw) || !isNonNegative(raw.maxWeight)) return null;
+  const { obstacles, door, allowance, cost } = raw;
+  const config: ContainerConfig = { name: isString(raw.name) ? raw.name : 'Container', ...toDimensions(raw), maxWeight: raw.maxWeight };
+  if (cost !== undefined) {
+    if (!isFiniteNumber(cost)) return null;
+    config.cost = cost;
+  }
+  if (obstacles !== undefined) {
+    if (!Array.isArray(obstacles)) return null;
+    const read = obstacles.map(readObstacle);
+    if (read.some(o => o === null)) return null;
+    config.obstacles = read as ContainerObstacle[];
+  }
+  if (door !== undefined) {
+    if (!isObject(door) || !isPositive(door.width) || !isPositive(door.height)) return null;
+    config.door = { width: door.width, height: door.height };
+  }
+  if (allowance !== undefined) {
+    const fields = isObject(allowance) ? pickFields<LoadAllowance>(allowance, ALLOWANCE_FIELDS, true) : null;
+    if (!fields) return null;
+    config.allowance = fields;
+  }
+  return config;
+};
+
+const readContainer = (raw: unknown): PlannedContainer | null => {
+  if (!isObject(raw) || !isNonEmptyString(raw.id)) return null;
+  const config = readContainerConfig(raw.config);
+  return config ? { id: raw.id, config } : null;
+};
+
+const readManifestRow = (raw: unknown): ImportedRow | null => {
+  if (
+    !isObject(raw) || !isString(raw.mainDrawingNo) || !isPositive(raw.length) || !isPositive(raw.width) || !isPositive(raw.height) ||
+    !Number.isInteger(raw.quantity) || !isPositive(raw.quantity) || !isFiniteNumber(raw.weight) || raw.weight < 0
+  ) {
+    return null;
+  }
+  const fields = pickFields<ImportedRow>(raw, ROW_FIELDS, true);
+  if (!fields) return null;
+  return {
+    ...fields,
+    mainDrawingNo: raw.mainDrawingNo,
+    subDrawingNo: typeof raw.subDrawingNo === 'string' ? raw.subDrawingNo : '',
+    length: raw.length,
+    width: raw.width,
+    height: raw.height,
+    quantity: raw.quantity,
+    weight: raw.weight
+  };
+};
+
+const isNumberRecord = (keys: string[]): Check => value => isObject(value) && keys.every(k => isFiniteNumber(value[k]));
+
+const SETTING_FIELDS: Record<keyof ProjectSettings, Check> = {
+  fleet: value => Array.isArray(value) && value.every(e => isObject(e) && Number.isInteger(e.count) && readContainerConfig(e.container) !== null),
+  fleetObjective: isOneOf(['FEWEST', 'CHEAPEST']),
+  cogWindow: isNumberRecord(['longitudinal', 'lateral']),
+  timeBudgetSec: isFiniteNumber,
+  searchIterations: isFiniteNumber,
+  objective: isNumberRecord(['volume', 'weight', 'value', 'count', 'priority']),
+  alternativePlans: isFiniteNumber,
+  placementPolicy: isOneOf([...PLACEMENT_POLICY_IDS, 'RACE']),
+  seedInput: isString,
+  securingOptions: isNumberRecord(['gapThreshold', 'airbagMaxGap']),
+  palletTemplate: value => isNumberRecord(['length', 'width', 'deckHeight', 'maxHeight', 'maxWeight', 'tareWeight'])(value) && isObject(value) && isString(value.name)
+};
+
+/**
+ * 解析项目文件并升级到当前版本
+ * 集装箱或文件结构不合法时整个文件无效；单件货物不合法时跳过该货物并计数
+ */
+export const parseProject = (text: string): ProjectLoadResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: 'INVALID_FILE' };
+  }
+  if (!isObject(parsed) || parsed.format !== PROJECT_FORMAT || typeof parsed.version !== 'number' || !Number.isInteger(parsed.version) || parsed.version < 1) {
+    return { error: 'INVALID_FILE' };
+  }
+  if (parsed.version > PROJECT_VERSION) return { error: 'NEWER_VERSION' };
+
+  let data: JsonObject = parsed;
+  let version = parsed.version;
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return { error: 'INVALID_FILE' };
+    version++;
+    data = { ...migrate(data), version };
+  }
+
+  if (!Array.isArray(data.containers) || !Array.isArray(data.items) || !Array.isArray(data.manifest) || !isObject(data.settings)) {
+    return { error: 'INVALID_FILE' };
+  }
+  const containers = data.containers.map(readContainer);
+  if (containers.length === 0 || containers.some(c => c === null)) return { error: 'INVALID_FILE' };
+  const validContainers = containers as PlannedContainer[];
+  const containerIds = new Set(validContainers.map(c => c.id));
+  if (containerIds.size !== validContainers.length) return { error: 'INVALID_FILE' };
+
+  // 编号重复的货物只保留第一件
+  const seen = new Set<string>();
+  const items: CargoItem[] = [];
+  data.items.forEach(raw => {
+    const item = readItem(raw, containerIds);
+    if (item && !seen.has(item.id)) {
+      seen.add(item.id);
+      items.push(item);
+    }
+  });
+
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date().toISOString(),
+    containers: validContainers,
+    activeContainerId: typeof data.activeContainerId === 'string' && containerIds.has(data.activeContainerId) ? data.activeContainerId : validContainers[0].id,
+    manifest: data.manifest.map(readManifestRow).filter((row): row is ImportedRow => row !== null),
+    items: validatePlan(items, validContainers),
+    planSeed: isFiniteNumber(data.planSeed) ? data.planSeed : null,
+    settings: pickFields<ProjectSettings>(data.settings, SETTING_FIELDS, false) || {}
+  };
+  return { project, skippedItems: data.items.length - items.length };
+};
+
+// --- 自动保存 (Autosave) ---
+// 有未保存的修改时写入 localStorage；启动时若发现自动保存，提示恢复（应对刷新、崩溃）
+
+const AUTOSAVE_KEY = 'smartcontainer.autosave';
+
+/**
+ * 写入自动保存；超出存储配额或浏览器禁用了 localStorage 时返回 false
+ */
+export const writeAutosave = (project: ProjectFile): boolean => {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, serializeProject(project));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const readAutosave = (): ProjectFile | null => {
+  try {
+    const text = localStorage.getItem(AUTOSAVE_KEY);
+    if (!text) return null;
+    const result = parseProject(text);
+    return 'project' in result ? result.project : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearAutosave = () => {
+  try {
+    localStorage.removeItem(AUTOSAVE_KEY);
+  } catch {
+    // 忽略：没有可清除的内容
+  }
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { createRng, deriveSeed } from './random';
+
+const take = (rng: () => number, count: number) => Array.from({ length: count }, () => rng());
+
+describe('createRng', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(take(createRng(42), 20)).toEqual(take(createRng(42), 20));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(take(createRng(1), 5)).not.toEqual(take(createRng(2), 5));
+  });
+
+  it('stays within [0, 1)', () => {
+    for (const value of take(createRng(7), 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('deriveSeed', () => {
+  it('is stable for the same seed and parts', () => {
+    expect(deriveSeed(42, 1, 2)).toBe(deriveSeed(42, 1, 2));
+  });
+
+  it('separates sub-problems of the same master seed', () => {
+    const seeds = new Set([deriveSeed(42), deriveSeed(42, 0), deriveSeed(42, 1), deriveSeed(42, 0, 1), deriveSeed(42, 1, 0)]);
+    expect(seeds.size).toBe(5);
+  });
+});
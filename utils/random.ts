@@ -0,0 +1,36 @@
+// --- 可复现的随机数 (Seeded PRNG) ---
+// 求解器中所有随机决策都必须走这里，而不是 Math.random()，
+// 这样同一个种子总能得到同一个方案。
+
+/**
+ * 创建一个伪随机数生成器 (Mulberry32)
+ * 返回的函数每次调用产生 [0, 1) 区间内的下一个随机数
+ */
+export const createRng = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * 由主种子和若干整数派生出子种子（如“第几个集装箱、第几种箱型”）
+ * 保证各子问题的随机序列互不相同，又都能由主种子复现
+ */
+export const deriveSeed = (seed: number, ...parts: number[]): number => {
+  let hash = seed >>> 0;
+  for (const part of parts) {
+    hash = Math.imul(hash ^ (part + 0x9e3779b9), 0x85ebca6b) >>> 0;
+    hash = (hash ^ (hash >>> 13)) >>> 0;
+  }
+  return hash;
+};
+
+/**
+ * 生成一个新的随机种子（用户未指定种子时使用）
+ */
+export const generateSeed = (): number => Math.floor(Math.random() * 0x7fffffff);
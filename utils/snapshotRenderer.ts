@@ -0,0 +1,207 @@
+import * as THREE from 'three';
+import { CargoItem, ContainerConfig } from '../types';
+import { getCylinderAxis, getOrientedSubItems } from './packingAlgorithm';
+import { CYLINDER_ROTATION, SCENE_CAMERA_FOV, SCENE_CAMERA_POSITION } from '../constants/geometry';
+
+// --- 离屏截图 (Off-screen Snapshots) ---
+// 不经过 React 画布，直接用 three.js 在离屏 canvas 上绘制集装箱和货物，输出图片供 PDF 使用。
+// 白底、浅色箱体，适合打印；指定高亮货物时，其余已装货物画成浅灰
+
+export type SnapshotView = 'SCENE' | 'ISOMETRIC';
+
+export interface SnapshotContainer {
+  config: ContainerConfig;
+  items: CargoItem[];
+}
+
+export interface SnapshotRenderer {
+  // 返回 JPEG data URL；highlightIds 为空时所有货物按本身颜色绘制
+  render: (containers: SnapshotContainer[], view: SnapshotView, highlightIds?: Set<string>) => string;
+  dispose: () => void;
+}
+
+const BACKGROUND = '#ffffff';
+const FRAME_COLOR = '#374151';
+const FLOOR_COLOR = '#e5e7eb';
+const OBSTACLE_COLOR = '#6b7280';
+const PLACED_COLOR = '#d1d5db'; // 之前步骤已装的货物
+const EDGE_COLOR = '#111827';
+const PLACED_EDGE_COLOR = '#9ca3af';
+const CONTAINER_GAP = 2000; // 多个集装箱并排绘制时的间距 (mm)
+
+// 单位尺寸的共享几何体，每个货物只按尺寸缩放
+const UNIT_BOX = new THREE.BoxGeometry(1, 1, 1);
+const UNIT_BOX_EDGES = new THREE.EdgesGeometry(UNIT_BOX);
+const UNIT_CYLINDER = new THREE.CylinderGeometry(0.5, 0.5, 1, 32);
+const UNIT_CYLINDER_EDGES = new THREE.EdgesGeometry(UNIT_CYLINDER, 30);
+const UNIT_PLANE = new THREE.PlaneGeometry(1, 1);
+
+interface Solid {
+  position: [number, number, number]; // 最小角
+  length: number;
+  width: number;
+  height: number;
+  color: string;
+  axis?: 'x' | 'y' | 'z';
+}
+
+// 货物拆成实际可见的实体：组合件和托盘画出每个零件
+const toSolids = (item: CargoItem): Solid[] => {
+  const [x, y, z] = item.position;
+  const parts = item.isGroup ? getOrientedSubItems(item) : [];
+  if (parts.length === 0) {
+    const { length, width, height } = item.dimensions;
+    return [{ position: [x, y, z], length, width, height, color: item.color, axis: getCylinderAxis(item.shape, item.orientation) }];
+  }
+  return parts.map(part => ({
+    position: [x + part.relativePosition[0], y + part.relativePosition[1], z + part.relativePosition[2]],
+    length: part.dimensions.length,
+    width: part.dimensions.width,
+    height: part.dimensions.height,
+    color: part.color,
+    axis: getCylinderAxis(part.shape, part.orientation)
+  }));
+};
+
+export const createSnapshotRenderer = (width: number, height: number): SnapshotRenderer => {
+  const canvas = document.createElement('canvas');
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, preserveDrawingBuffer: true });
+  renderer.setPixelRatio(1);
+  renderer.setSize(width, height, false);
+  renderer.setClearColor(BACKGROUND);
+
+  // 材质按颜色缓存、在各次截图间复用，只在 dispose 时释放
+  const materials = new Map<string, THREE.Material>();
+  const floorMaterial = () => {
+    if (!materials.has('floor')) materials.set('floor', new THREE.MeshBasicMaterial({ color: FLOOR_COLOR, side: THREE.DoubleSide }));
+    return materials.get('floor')!;
+  };
+  const meshMaterial = (color: string) => {
+    const key = `mesh:${color}`;
+    if (!materials.has(key)) materials.set(key, new THREE.MeshLambertMaterial({ color }));
+    return materials.get(key)!;
+  };
+  const lineMaterial = (color: string, opacity: number = 1) => {
+    const key = `line:${color}:${opacity}`;
+    if (!materials.has(key)) materials.set(key, new THREE.LineBasicMaterial({ color, transparent: opacity < 1, opacity }));
+    return materials.get(key)!;
+  };
+
+  const addSolid = (group: THREE.Group, solid: Solid, placed: boolean) => {
+    const { length: l, width: w, height: h, axis } = solid;
+    const body = new THREE.Group();
+    body.position.set(solid.position[0] + l / 2, solid.position[1] + h / 2, solid.position[2] + w / 2);
+    let geometry: THREE.BufferGeometry = UNIT_BOX;
+    let edges: THREE.BufferGeometry = UNIT_BOX_EDGES;
+    const scale = new THREE.Vector3(l, h, w);
+    if (axis) {
+      // 圆柱沿自身 Y 轴建模，先缩放再按轴向旋转
+      const diameter = axis === 'x' ? Math.min(h, w) : axis === 'y' ? Math.min(l, w) : Math.min(l, h);
+      scale.set(diameter, axis === 'x' ? l : axis === 'y' ? h : w, diameter);
+      body.rotation.set(...CYLINDER_ROTATION[axis]);
+      geometry = UNIT_CYLINDER;
+      edges = UNIT_CYLINDER_EDGES;
+    }
+    const mesh = new THREE.Mesh(geometry, meshMaterial(placed ? PLACED_COLOR : solid.color));
+    const outline = new THREE.LineSegments(edges, placed ? lineMaterial(PLACED_EDGE_COLOR) : lineMaterial(EDGE_COLOR, 0.6));
+    mesh.scale.copy(scale);
+    outline.scale.copy(scale);
+    body.add(mesh, outline);
+    group.add(body);
+  };
+
+  const addContainer = (group: THREE.Group, config: ContainerConfig) => {
+    const { length: l, width: w, height: h } = config;
+    const floor = new THREE.Mesh(UNIT_PLANE, floorMaterial());
+    floor.scale.set(l, w, 1);
+    floor.rotation.x = -Math.PI / 2;
+    floor.position.set(l / 2, -1, w / 2);
+    const frame = new THREE.LineSegments(UNIT_BOX_EDGES, lineMaterial(FRAME_COLOR));
+    frame.scale.set(l, h, w);
+    frame.position.set(l / 2, h / 2, w / 2);
+    group.add(floor, frame);
+    (config.obstacles || []).forEach(o => addSolid(group, {
+      position: o.position,
+      length: o.dimensions.length,
+      width: o.dimensions.width,
+      height: o.dimensions.height,
+      color: OBSTACLE_COLOR
+    }, false));
+  };
+
+  // 所有集装箱并排摆放（沿宽度方向），返回整体包围盒
+  const buildScene = (containers: SnapshotContainer[], highlightIds?: Set<string>) => {
+    const scene = new THREE.Scene();
+    scene.add(new THREE.AmbientLight(0xffffff, 1.6));
+    const sun = new THREE.DirectionalLight(0xffffff, 1.8);
+    sun.position.set(3000, 10000, 6000);
+    scene.add(sun);
+
+    const bounds = new THREE.Box3();
+    let offsetZ = 0;
+    containers.forEach(({ config, items }) => {
+      const group = new THREE.Group();
+      group.position.z = offsetZ;
+      addContainer(group, config);
+      items.forEach(item => {
+        const placed = !!highlightIds && !highlightIds.has(item.id);
+        toSolids(item).forEach(solid => addSolid(group, solid, placed));
+      });
+      scene.add(group);
+      bounds.union(new THREE.Box3(new THREE.Vector3(0, 0, offsetZ), new THREE.Vector3(config.length, config.height, offsetZ + config.width)));
+      offsetZ += config.width + CONTAINER_GAP;
+    });
+    return { scene, bounds };
+  };
+
+  const render = (containers: SnapshotContainer[], view: SnapshotView, highlightIds?: Set<string>): string => {
+    const { scene, bounds } = buildScene(containers, highlightIds);
+    const center = bounds.getCenter(new THREE.Vector3());
+    const radius = bounds.getBoundingSphere(new THREE.Sphere()).radius;
+    const aspect = width / height;
+
+    let camera: THREE.Camera;
+    if (view === 'SCENE') {
+      // 与 3D 视图默认视角方向相同，距离按箱体大小自动调整
+      const perspective = new THREE.PerspectiveCamera(SCENE_CAMERA_FOV, aspect, 10, radius * 10);
+      const fov = THREE.MathUtils.degToRad(SCENE_CAMERA_FOV) / 2;
+      const distance = radius / Math.sin(Math.min(fov, Math.atan(Math.tan(fov) * aspect)));
+      perspective.position.copy(center).add(new THREE.Vector3(...SCENE_CAMERA_POSITION).normalize().multiplyScalar(distance * 0.85));
+      perspective.lookAt(center);
+      camera = perspective;
+    } else {
+      // 从箱门一侧的斜上方等轴测观察，按包围盒在画面上的投影留边
+      const ortho = new THREE.OrthographicCamera(-1, 1, 1, -1, 1, radius * 10);
+      ortho.position.copy(center).add(new THREE.Vector3(1, 1, 1).normalize().multiplyScalar(radius * 3));
+      ortho.lookAt(center);
+      ortho.updateMatrixWorld();
+      const projected = new THREE.Box3();
+      [bounds.min, bounds.max].forEach(a => [bounds.min, bounds.max].forEach(b => [bounds.min, bounds.max].forEach(c => {
+        projected.expandByPoint(new THREE.Vector3(a.x, b.y, c.z).applyMatrix4(ortho.matrixWorldInverse));
+      })));
+      const margin = 1.08;
+      const halfW = Math.max((projected.max.x - projected.min.x) / 2, (projected.max.y - projected.min.y) / 2 * aspect) * margin;
+      const midX = (projected.max.x + projected.min.x) / 2;
+      const midY = (projected.max.y + projected.min.y) / 2;
+      ortho.left = midX - halfW;
+      ortho.right = midX + halfW;
+      ortho.top = midY + halfW / aspect;
+      ortho.bottom = midY - halfW / aspect;
+      ortho.updateProjectionMatrix();
+      camera = ortho;
+    }
+
+    // 场景中的几何体和材质都是共享的，截图后直接丢弃场景即可
+    renderer.render(scene, camera);
+    return canvas.toDataURL('image/jpeg', 0.9);
+  };
+
+  const dispose = () => {
+    materials.forEach(m => m.dispose());
+    materials.clear();
+    renderer.dispose();
+    renderer.forceContextLoss();
+  };
+
+  return { render, dispose };
+};
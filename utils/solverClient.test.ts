@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { FleetPlan, SolverProgress } from './packingAlgorithm';
+import { runSolverInWorker, SolverCallbacks } from './solverClient';
+import { SolveRequest, SolverMessage } from './solverProtocol';
+
+// 代替浏览器 Worker：记录收到的请求，由测试代为发出 Worker 的消息
+class FakeWorker {
+  static last: FakeWorker;
+  onmessage: ((event: { data: SolverMessage }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  requests: SolveRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.last = this;
+  }
+
+  postMessage(request: SolveRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  emit(message: SolverMessage) {
+    this.onmessage?.({ data: message });
+  }
+}
+
+const PLAN: FleetPlan = { containers: [], items: [], seed: 7 };
+const PROGRESS: SolverProgress = { containerIndex: 0, trial: 1, totalTrials: 3, bestUtil: 50, elapsedMs: 10 };
+
+const callbacks = (): SolverCallbacks => ({ onProgress: vi.fn(), onDone: vi.fn(), onError: vi.fn() });
+
+describe('runSolverInWorker', () => {
+  beforeEach(() => vi.stubGlobal('Worker', FakeWorker));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('sends one solve request and relays progress until done', () => {
+    const cb = callbacks();
+    runSolverInWorker([], [], { seed: 7 }, cb);
+    const worker = FakeWorker.last;
+    expect(worker.requests).toEqual([{ type: 'solve', items: [], fleet: [], options: { seed: 7 }, containers: [] }]);
+
+    worker.emit({ type: 'progress', progress: PROGRESS, bestPlan: PLAN });
+    expect(cb.onProgress).toHaveBeenCalledWith(PROGRESS, PLAN);
+    worker.emit({ type: 'done', plan: PLAN });
+    expect(cb.onDone).toHaveBeenCalledWith(PLAN);
+    expect(worker.terminated).toBe(true);
+
+    // 结束后 Worker 的迟到消息一律忽略
+    worker.emit({ type: 'progress', progress: PROGRESS, bestPlan: PLAN });
+    expect(cb.onProgress).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops reporting once cancelled', () => {
+    const cb = callbacks();
+    const handle = runSolverInWorker([], [], {}, cb);
+    handle.cancel();
+    expect(FakeWorker.last.terminated).toBe(true);
+    FakeWorker.last.emit({ type: 'done', plan: PLAN });
+    expect(cb.onDone).not.toHaveBeenCalled();
+  });
+
+  it('reports solver errors and workers that fail to start', () => {
+    const failed = callbacks();
+    runSolverInWorker([], [], {}, failed);
+    FakeWorker.last.emit({ type: 'error', message: 'out of memory' });
+    expect(failed.onError).toHaveBeenCalledWith('out of memory');
+    expect(FakeWorker.last.terminated).toBe(true);
+
+    const crashed = callbacks();
+    runSolverInWorker([], [], {}, crashed);
+    FakeWorker.last.onerror?.({ message: '' });
+    expect(crashed.onError).toHaveBeenCalledWith('Solver worker failed to start');
+    expect(crashed.onDone).not.toHaveBeenCalled();
+  });
+});
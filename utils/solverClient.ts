@@ -0,0 +1,63 @@
+import { CargoItem, FleetEntry, PlannedContainer, SolverOptions } from '../types';
+import { FleetPlan, SolverProgress } from './packingAlgorithm';
+import { SolveRequest, SolverMessage } from './solverProtocol';
+
+export interface SolverCallbacks {
+  onProgress: (progress: SolverProgress, bestPlan: FleetPlan) => void;
+  onDone: (plan: FleetPlan) => void;
+  onError: (message: string) => void;
+}
+
+export interface SolverHandle {
+  cancel: () => void; // 立即终止 Worker，之后不会再有回调
+}
+
+/**
+ * 在 Web Worker 中运行多柜装箱求解
+ * 进度回调里会带上目前最佳方案，取消时由调用方决定是否采用
+ */
+export const runSolverInWorker = (
+  items: CargoItem[],
+  fleet: FleetEntry[],
+  options: SolverOptions,
+  callbacks: SolverCallbacks,
+  containers: PlannedContainer[] = []
+): SolverHandle => {
+  const worker = new Worker(new URL('./packingWorker.ts', import.meta.url), { type: 'module' });
+  let finished = false;
+
+  const stop = () => {
+    finished = true;
+    worker.terminate();
+  };
+
+  worker.onmessage = (event: MessageEvent<SolverMessage>) => {
+    if (finished) return;
+    const message = event.data;
+    switch (message.type) {
+      case 'progress':
+        callbacks.onProgress(message.progress, message.bestPlan);
+        break;
+      case 'done':
+        stop();
+        callbacks.onDone(message.plan);
+        break;
+      case 'error':
+        stop();
+        callbacks.onError(message.message);
+        break;
+    }
+  };
+
+  worker.onerror = (event) => {
+    if (finished) return;
+    stop();
+    // 脚本加载失败时浏览器不提供错误信息
+    callbacks.onError(event.message || 'Solver worker failed to start');
+  };
+
+  const request: SolveRequest = { type: 'solve', items, fleet, options, containers };
+  worker.postMessage(request);
+
+  return { cancel: stop };
+};
@@ -0,0 +1,19 @@
+import { CargoItem, FleetEntry, PlannedContainer, SolverOptions } from '../types';
+import { FleetPlan, SolverProgress } from './packingAlgorithm';
+
+// --- 主线程 <-> 求解 Worker 的消息协议 ---
+
+// 主线程 -> Worker：开始一次求解
+export interface SolveRequest {
+  type: 'solve';
+  items: CargoItem[];
+  fleet: FleetEntry[];
+  options: SolverOptions;
+  containers: PlannedContainer[]; // 当前方案的集装箱（锁定物品所在的集装箱会被沿用）
+}
+
+// Worker -> 主线程：进度（附带目前最佳方案）、完成、出错
+export type SolverMessage =
+  | { type: 'progress', progress: SolverProgress, bestPlan: FleetPlan }
+  | { type: 'done', plan: FleetPlan }
+  | { type: 'error', message: string };
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { CargoItem } from '../types';
+import { createSpatialIndex } from './spatialIndex';
+
+const cube = (id: string, x: number, y: number, z: number, size: number = 1000): CargoItem => ({
+  id, drawingNo: id, dimensions: { length: size, width: size, height: size }, position: [x, y, z],
+  color: '#fff', weight: 1, selected: false, isValid: true
+});
+
+const idsOf = (items: CargoItem[]) => items.map(i => i.id).sort();
+
+describe('createSpatialIndex', () => {
+  const range = { x: 0, y: 0, z: 0, l: 1000, h: 1000, w: 1000 };
+
+  it('finds items in the queried cells only', () => {
+    const index = createSpatialIndex([cube('a', 0, 0, 0), cube('b', 5000, 0, 0), cube('c', 0, 3000, 0)]);
+    expect(index.size()).toBe(3);
+    expect(idsOf(index.query(range))).toEqual(['a']);
+    expect(idsOf(index.query({ ...range, l: 6000 }))).toEqual(['a', 'b']);
+  });
+
+  it('widens the query by the margin', () => {
+    const index = createSpatialIndex([cube('near', 1300, 0, 0, 500)]);
+    expect(index.query({ ...range, l: 500 })).toEqual([]);
+    expect(idsOf(index.query({ ...range, l: 500 }, 900))).toEqual(['near']);
+  });
+
+  it('registers large items in every cell they cover', () => {
+    const index = createSpatialIndex([cube('long', 0, 0, 0, 4000)]);
+    expect(idsOf(index.query({ x: 3500, y: 3500, z: 3500, l: 10, h: 10, w: 10 }))).toEqual(['long']);
+  });
+
+  it('follows moved, changed and removed items on sync', () => {
+    const a = cube('a', 0, 0, 0);
+    const index = createSpatialIndex([a, cube('b', 5000, 0, 0)]);
+    const selected = { ...a, selected: true };
+    index.sync([selected, cube('b', 5000, 0, 0)]);
+    expect(index.query(range)).toEqual([selected]);
+
+    index.sync([cube('a', 8000, 0, 0)]);
+    expect(index.size()).toBe(1);
+    expect(index.query(range)).toEqual([]);
+    expect(idsOf(index.query({ ...range, x: 8000 }))).toEqual(['a']);
+  });
+});
@@ -0,0 +1,114 @@
+import { CargoItem } from '../types';
+
+// --- 空间索引 (Uniform Grid) ---
+// 手动拖拽时每次移动都要做吸附和碰撞检测，逐个遍历全部货物在几千件时会明显卡顿。
+// 这里把空间划分成边长固定的立方格，每件货物登记在它覆盖的所有格子里，
+// 查询时只检查目标范围覆盖的格子。
+
+// 查询范围：起点坐标 + 三个方向的跨度（与算法内部的 Box 一致）
+export interface SpatialQuery {
+  x: number;
+  y: number;
+  z: number;
+  l: number; // X 轴跨度
+  h: number; // Y 轴跨度
+  w: number; // Z 轴跨度
+}
+
+export interface SpatialIndex {
+  // 返回与查询范围（四周各扩大 margin）有交集的货物，可能包含少量不相交的邻近货物
+  query: (range: SpatialQuery, margin?: number) => CargoItem[];
+  // 与最新的物品列表同步：只重新登记位置或尺寸发生变化的物品
+  sync: (items: CargoItem[]) => void;
+  size: () => number;
+}
+
+// 默认格子边长 (mm)：大致与常见货物尺寸相当，单件货物通常只覆盖少量格子
+export const DEFAULT_CELL_SIZE = 1000;
+
+interface Entry {
+  item: CargoItem;
+  keys: string[]; // 登记过的格子
+}
+
+const sameGeometry = (a: CargoItem, b: CargoItem): boolean =>
+  a.position[0] === b.position[0] && a.position[1] === b.position[1] && a.position[2] === b.position[2] &&
+  a.dimensions.length === b.dimensions.length && a.dimensions.width === b.dimensions.width && a.dimensions.height === b.dimensions.height;
+
+/**
+ * 创建均匀网格空间索引
+ */
+export const createSpatialIndex = (items: CargoItem[] = [], cellSize: number = DEFAULT_CELL_SIZE): SpatialIndex => {
+  const cells = new Map<string, Set<string>>();
+  const entries = new Map<string, Entry>();
+
+  // 遍历范围覆盖的所有格子
+  const forEachCell = (range: SpatialQuery, margin: number, visit: (key: string) => void) => {
+    const x1 = Math.floor((range.x - margin) / cellSize), x2 = Math.floor((range.x + range.l + margin) / cellSize);
+    const y1 = Math.floor((range.y - margin) / cellSize), y2 = Math.floor((range.y + range.h + margin) / cellSize);
+    const z1 = Math.floor((range.z - margin) / cellSize), z2 = Math.floor((range.z + range.w + margin) / cellSize);
+    for (let i = x1; i <= x2; i++) {
+      for (let j = y1; j <= y2; j++) {
+        for (let k = z1; k <= z2; k++) visit(`${i},${j},${k}`);
+      }
+    }
+  };
+
+  const toRange = (item: CargoItem): SpatialQuery => ({
+    x: item.position[0], y: item.position[1], z: item.position[2],
+    l: item.dimensions.length, h: item.dimensions.height, w: item.dimensions.width
+  });
+
+  const insert = (item: CargoItem) => {
+    const keys: string[] = [];
+    forEachCell(toRange(item), 0, key => {
+      let cell = cells.get(key);
+      if (!cell) cells.set(key, cell = new Set());
+      cell.add(item.id);
+      keys.push(key);
+    });
+    entries.set(item.id, { item, keys });
+  };
+
+  const remove = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    for (const key of entry.keys) {
+      const cell = cells.get(key);
+      if (!cell) continue;
+      cell.delete(id);
+      if (cell.size === 0) cells.delete(key);
+    }
+    entries.delete(id);
+  };
+
+  const sync = (next: CargoItem[]) => {
+    const ids = new Set<string>();
+    for (const item of next) {
+      ids.add(item.id);
+      const entry = entries.get(item.id);
+      if (entry && entry.item === item) continue;
+      if (entry && sameGeometry(entry.item, item)) {
+        // 只有属性变化（如选中状态），沿用原来的格子
+        entry.item = item;
+        continue;
+      }
+      remove(item.id);
+      insert(item);
+    }
+    for (const id of [...entries.keys()]) {
+      if (!ids.has(id)) remove(id);
+    }
+  };
+
+  const query = (range: SpatialQuery, margin: number = 0): CargoItem[] => {
+    const found = new Set<string>();
+    forEachCell(range, margin, key => {
+      cells.get(key)?.forEach(id => found.add(id));
+    });
+    return [...found].map(id => entries.get(id)!.item);
+  };
+
+  sync(items);
+  return { query, sync, size: () => entries.size };
+};